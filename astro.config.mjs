@@ -1,6 +1,7 @@
 // @ts-check
 import { defineConfig } from "astro/config";
 import sitemap from "@astrojs/sitemap";
+import { DEFAULT_LOCALE, LOCALES } from "./src/utils/locales.ts";
 
 // https://astro.build/config
 export default defineConfig({
@@ -13,12 +14,10 @@ export default defineConfig({
 	},
 	integrations: [
 		sitemap({
+			// Keys are the URL segments of the editions (see src/utils/locales.ts); the default edition has none
 			i18n: {
-				defaultLocale: "zh-Hant",
-				locales: {
-					"zh-Hant": "zh-TW",
-					en: "en-US"
-				}
+				defaultLocale: DEFAULT_LOCALE.code,
+				locales: Object.fromEntries(LOCALES.map(locale => [locale === DEFAULT_LOCALE ? locale.code : locale.path, locale.hreflang]))
 			},
 			filter: page => {
 				return !page.includes("/quotation");
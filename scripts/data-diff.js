@@ -0,0 +1,241 @@
+/**
+ * Compares two versions of src/data/item.json and plan.json and builds a change report,
+ * so every scheduled fetch leaves a record of what changed and flags edits that need review.
+ */
+
+const TEXT_LOCALE_PATTERN = /_(zh|en)$/;
+
+/**
+ * Decide which kind of change a field edit is
+ * @param {string} field - Field name like "price", "remaining" or "name_en"
+ * @returns {{ kind: "price" | "stock" | "deadline" | "opening" | "text" | "other", locale?: "zh" | "en" }}
+ */
+function classifyField(field) {
+	if (field === "price") return { kind: "price" };
+	if (field === "remaining") return { kind: "stock" };
+	if (field === "deadline") return { kind: "deadline" };
+	if (field === "start_time") return { kind: "opening" };
+
+	const localeMatch = field.match(TEXT_LOCALE_PATTERN);
+	if (localeMatch) return { kind: "text", locale: localeMatch[1] };
+
+	return { kind: "other" };
+}
+
+function isSoldOutValue(remaining) {
+	return typeof remaining === "string" && remaining.trim() === "0";
+}
+
+function isBlank(value) {
+	return typeof value !== "string" || value.trim() === "";
+}
+
+/**
+ * Compare the scalar fields of two records
+ * @param {object} before - Old record
+ * @param {object} after - New record
+ * @param {string} prefix - Prefix for nested fields, e.g. "sub[0]."
+ * @param {string[]} ignoredFields - Fields compared separately
+ */
+function diffFields(before, after, prefix = "", ignoredFields = []) {
+	const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(field => !ignoredFields.includes(field));
+	const changes = [];
+
+	fields.forEach(field => {
+		const from = before[field];
+		const to = after[field];
+		if (JSON.stringify(from) === JSON.stringify(to)) return;
+
+		changes.push({ field: prefix + field, ...classifyField(field), from: from ?? null, to: to ?? null });
+	});
+
+	return changes;
+}
+
+/**
+ * Find the edits that should be reviewed before they go live
+ * @param {string} file - "item.json" or "plan.json"
+ * @param {string} id - Item or plan ID
+ * @param {string} name - Display name used in the report
+ * @param {object[]} changes - Field changes of this record
+ */
+function findRisks(file, id, name, changes) {
+	const risks = [];
+
+	changes.forEach(change => {
+		if (change.kind === "price" && !isBlank(change.from) && isBlank(change.to)) {
+			risks.push({ file, id, name, field: change.field, type: "price-blanked", message: `price was cleared (was ${change.from})` });
+		}
+		if (change.kind === "stock" && isSoldOutValue(change.from) && !isBlank(change.to) && parseInt(change.to, 10) > 0) {
+			risks.push({ file, id, name, field: change.field, type: "restocked", message: `remaining went up from 0 to ${change.to} after selling out` });
+		}
+	});
+
+	return risks;
+}
+
+/**
+ * Compare two item.json objects
+ * @param {Record<string, object>} oldItems - Previous item.json
+ * @param {Record<string, object>} newItems - Freshly generated item.json
+ */
+function diffItems(oldItems, newItems) {
+	const added = Object.keys(newItems)
+		.filter(id => !(id in oldItems))
+		.map(id => ({ id, name: newItems[id].name_zh }));
+	const removed = Object.keys(oldItems)
+		.filter(id => !(id in newItems))
+		.map(id => ({ id, name: oldItems[id].name_zh }));
+	const changed = [];
+	const risks = removed.map(item => ({ file: "item.json", id: item.id, name: item.name, field: "(item)", type: "removed", message: "item was removed from the sheet" }));
+
+	Object.keys(newItems)
+		.filter(id => id in oldItems)
+		.forEach(id => {
+			const before = oldItems[id];
+			const after = newItems[id];
+			const changes = diffFields(before, after, "", ["sub"]);
+
+			const oldSubs = before.sub || [];
+			const newSubs = after.sub || [];
+			for (let index = 0; index < Math.max(oldSubs.length, newSubs.length); index++) {
+				if (!oldSubs[index]) {
+					changes.push({ field: `sub[${index}]`, kind: "added", from: null, to: newSubs[index].name_zh });
+				} else if (!newSubs[index]) {
+					changes.push({ field: `sub[${index}]`, kind: "removed", from: oldSubs[index].name_zh, to: null });
+				} else {
+					changes.push(...diffFields(oldSubs[index], newSubs[index], `sub[${index}].`));
+				}
+			}
+
+			if (changes.length === 0) return;
+
+			changed.push({ id, name: after.name_zh, changes });
+			risks.push(...findRisks("item.json", id, after.name_zh, changes));
+		});
+
+	return { added, removed, changed, risks };
+}
+
+/**
+ * Compare two plan.json objects
+ * @param {Record<string, object>} oldPlans - Previous plan.json
+ * @param {Record<string, object>} newPlans - Freshly generated plan.json
+ */
+function diffPlans(oldPlans, newPlans) {
+	const added = Object.keys(newPlans)
+		.filter(id => !(id in oldPlans))
+		.map(id => ({ id, name: newPlans[id].name_zh }));
+	const removed = Object.keys(oldPlans)
+		.filter(id => !(id in newPlans))
+		.map(id => ({ id, name: oldPlans[id].name_zh }));
+	const changed = [];
+	const risks = removed.map(plan => ({ file: "plan.json", id: plan.id, name: plan.name, field: "(plan)", type: "removed", message: "plan was removed from the sheet" }));
+
+	Object.keys(newPlans)
+		.filter(id => id in oldPlans)
+		.forEach(id => {
+			const before = oldPlans[id];
+			const after = newPlans[id];
+			const changes = diffFields(before, after, "", ["benefits"]);
+
+			// Benefits are keyed by item name, since benefits like social media posts have no item ID
+			const oldBenefits = new Map((before.benefits || []).map(benefit => [benefit.item_name, benefit.quantity]));
+			const newBenefits = new Map((after.benefits || []).map(benefit => [benefit.item_name, benefit.quantity]));
+			[...new Set([...oldBenefits.keys(), ...newBenefits.keys()])].forEach(itemName => {
+				const from = oldBenefits.get(itemName) ?? null;
+				const to = newBenefits.get(itemName) ?? null;
+				if (from !== to) changes.push({ field: `benefits[${itemName}]`, kind: "benefit", from, to });
+			});
+
+			if (changes.length === 0) return;
+
+			changed.push({ id, name: after.name_zh, changes });
+			risks.push(...findRisks("plan.json", id, after.name_zh, changes));
+		});
+
+	return { added, removed, changed, risks };
+}
+
+/**
+ * Build the full change report for one fetch
+ * @param {{ items: object, plans: object }} before - Data before the fetch (empty objects on the first run)
+ * @param {{ items: object, plans: object }} after - Data produced by the fetch
+ */
+function buildChangeReport(before, after) {
+	const { risks: itemRisks, ...items } = diffItems(before.items, after.items);
+	const { risks: planRisks, ...plans } = diffPlans(before.plans, after.plans);
+	const risks = [...itemRisks, ...planRisks];
+
+	const hasChanges = [items, plans].some(section => section.added.length + section.removed.length + section.changed.length > 0);
+
+	return { generatedAt: new Date().toISOString(), hasChanges, items, plans, risks };
+}
+
+function formatValue(value) {
+	if (value === null || value === undefined) return "—";
+	const text = typeof value === "string" ? value : JSON.stringify(value);
+	if (text === "") return "(empty)";
+
+	// Keep long descriptions readable inside a table cell
+	const singleLine = text.replace(/\s*\r?\n\s*/g, " ").replace(/\|/g, "\\|");
+	return `\`${singleLine.length > 80 ? singleLine.slice(0, 77) + "..." : singleLine}\``;
+}
+
+const KIND_LABELS = {
+	price: "Price",
+	stock: "Stock",
+	deadline: "Deadline",
+	opening: "Opening time",
+	text: "Text",
+	benefit: "Benefit",
+	added: "Added",
+	removed: "Removed",
+	other: "Other"
+};
+
+function formatSection(title, section) {
+	const lines = [`## ${title}`, ""];
+
+	if (section.added.length + section.removed.length + section.changed.length === 0) {
+		return [...lines, "No changes.", ""];
+	}
+
+	section.added.forEach(entry => lines.push(`- ➕ Added **${entry.name}** (\`${entry.id}\`)`));
+	section.removed.forEach(entry => lines.push(`- ➖ Removed **${entry.name}** (\`${entry.id}\`)`));
+	if (section.added.length + section.removed.length > 0) lines.push("");
+
+	section.changed.forEach(entry => {
+		lines.push(`### ${entry.name} (\`${entry.id}\`)`, "", "| Change | Field | Before | After |", "| --- | --- | --- | --- |");
+		entry.changes.forEach(change => {
+			const label = KIND_LABELS[change.kind] + (change.locale ? ` (${change.locale})` : "");
+			lines.push(`| ${label} | \`${change.field}\` | ${formatValue(change.from)} | ${formatValue(change.to)} |`);
+		});
+		lines.push("");
+	});
+
+	return lines;
+}
+
+/**
+ * Render the change report as Markdown, e.g. for the GitHub Actions job summary
+ * @param {ReturnType<typeof buildChangeReport>} report - Report from buildChangeReport
+ */
+function formatChangeReportMarkdown(report) {
+	const lines = ["# Sponsorship data changes", ""];
+
+	if (!report.hasChanges) {
+		return [...lines, "No changes to item.json or plan.json.", ""].join("\n");
+	}
+
+	if (report.risks.length > 0) {
+		lines.push(`> [!WARNING]`, `> ${report.risks.length} change(s) need review before going live:`);
+		report.risks.forEach(risk => lines.push(`> - ${risk.file} › **${risk.name}** (\`${risk.id}\`) › \`${risk.field}\`: ${risk.message}`));
+		lines.push("");
+	}
+
+	lines.push(...formatSection("Items", report.items), ...formatSection("Plans", report.plans));
+	return lines.join("\n");
+}
+
+export { classifyField, diffItems, diffPlans, buildChangeReport, formatChangeReportMarkdown };
@@ -1,8 +1,10 @@
+import crypto from "crypto";
 import fs from "fs";
-import https from "https";
 import path from "path";
-import { parse } from "csv-parse";
+import { parseArgs } from "util";
 import sharp from "sharp";
+import { buildChangeReport, formatChangeReportMarkdown } from "./data-diff.js";
+import { createGoogleSheetsSource, createSource, downloadImage, parseCsv, writeFileAtomic } from "./sources.js";
 
 // Read configuration from sheet.json with error handling
 let sheetConfig;
@@ -15,10 +17,8 @@ try {
 }
 
 // Validate configuration data
+// spreadsheet_id is only required by the Google Sheets source, see sources.js
 function validateConfig(config) {
-	if (!config.spreadsheet_id || typeof config.spreadsheet_id !== "string") {
-		throw new Error("Invalid or missing spreadsheet_id in configuration");
-	}
 	if (!config.sheets || typeof config.sheets !== "object") {
 		throw new Error("Invalid or missing sheets configuration");
 	}
@@ -30,53 +30,108 @@ try {
 	process.exit(1);
 }
 
-const SPREADSHEET_ID = sheetConfig.spreadsheet_id;
-const SHEET_GIDS = sheetConfig.sheets;
+const SHEET_NAMES = Object.keys(sheetConfig.sheets);
 
-function buildCsvUrl(gid) {
-	return `https://docs.google.com/spreadsheets/d/e/${SPREADSHEET_ID}/pub?gid=${gid}&single=true&output=csv`;
+// Read the column mapping (sheet headers → item.json / plan.json fields) from sheet-mapping.json
+let sheetMapping;
+try {
+	sheetMapping = JSON.parse(fs.readFileSync("./scripts/sheet-mapping.json", "utf8"));
+} catch (error) {
+	console.error("Failed to read or parse sheet-mapping.json:", error.message);
+	process.exit(1);
 }
 
-function fetchCsv(url, redirectCount = 0) {
-	const MAX_REDIRECTS = 5;
+// Sheets holding per-category copy, merged into `${sheetName}_<locale>` fields such as global_description_en
+const DESCRIPTION_SHEETS = ["global_description", "talent_recruitment", "brand_exposure", "product_promotion"];
+
+/**
+ * Read a field from a sheet row using the header aliases from sheet-mapping.json
+ * @param {Record<string, string> | undefined} row - Parsed CSV record
+ * @param {string[]} aliases - Header names to try in order
+ * @param {number} [subIndex] - Sub-item number replacing "{n}" in the aliases
+ * @returns {string} The first non-empty value, or an empty string
+ */
+function readColumn(row, aliases, subIndex) {
+	if (!row) return "";
+
+	for (const alias of aliases) {
+		const value = row[subIndex === undefined ? alias : alias.replaceAll("{n}", subIndex)];
+		if (value) return value;
+	}
+	return "";
+}
 
-	return new Promise((resolve, reject) => {
-		if (redirectCount > MAX_REDIRECTS) {
-			reject(new Error(`Too many redirects (${redirectCount}). Possible redirect loop.`));
-			return;
+/**
+ * Read a localized field in every language, e.g. name_zh and name_en
+ * @param {Record<string, string> | undefined} row - Parsed CSV record
+ * @param {string} field - Field name without the locale suffix
+ * @param {Record<string, string[]>} columns - Column aliases keyed by localized field name
+ * @param {string[]} locales - Locale suffixes from sheet-mapping.json ("field" in src/i18n/*.json)
+ * @param {number} [subIndex] - Sub-item number replacing "{n}" in the aliases
+ * @returns {Record<string, string>} Values keyed by localized field name; languages without columns are empty
+ */
+function readLocalizedColumns(row, field, columns, locales, subIndex) {
+	return Object.fromEntries(locales.map(locale => [`${field}_${locale}`, readColumn(row, columns[`${field}_${locale}`] ?? [], subIndex)]));
+}
+
+function escapeRegExp(text) {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compare the headers of every sheet with sheet-mapping.json
+ * @param {Record<string, Record<string, string>[]>} sheets - Parsed sheets
+ * @param {object} mapping - Contents of sheet-mapping.json
+ * @returns {Record<string, { unknown: string[], missing: string[] }>} Sheets with unknown or missing columns
+ */
+function checkSheetColumns(sheets, mapping = sheetMapping) {
+	const report = {};
+
+	const check = (sheetName, knownAliases, requiredFields, isKnownHeader = () => false) => {
+		const rows = sheets[sheetName];
+		if (!rows || rows.length === 0) return;
+
+		const headers = Object.keys(rows[0]);
+		const unknown = headers.filter(header => !knownAliases.includes(header) && !isKnownHeader(header));
+		const missing = Object.entries(requiredFields)
+			.filter(([, aliases]) => !aliases.some(alias => headers.includes(alias)))
+			.map(([field, aliases]) => `${field} (${aliases.map(alias => `"${alias}"`).join(" / ")})`);
+
+		if (unknown.length > 0 || missing.length > 0) {
+			report[sheetName] = { unknown, missing };
 		}
+	};
+
+	// Items: fixed columns plus numbered sub-item columns like "子項目3價錢"
+	const items = mapping.items;
+	const subItemPatterns = Object.values(items.sub_items.columns)
+		.flat()
+		.map(alias => new RegExp(`^${escapeRegExp(alias).replace("\\{n\\}", "\\d+")}$`));
+	const firstSubItemColumns = Object.fromEntries(Object.entries(items.sub_items.columns).map(([field, aliases]) => [`sub.${field}`, aliases.map(alias => alias.replaceAll("{n}", 1))]));
+	const requiredItemColumns = Object.fromEntries(Object.entries({ id: items.id, ...items.columns, ...firstSubItemColumns }).filter(([field]) => !items.optional.includes(field)));
+	check("items", [...items.id, ...Object.values(items.columns).flat()], requiredItemColumns, header => subItemPatterns.some(pattern => pattern.test(header)));
+
+	const descriptions = mapping.descriptions;
+	const requiredDescriptionColumns = Object.fromEntries(Object.entries(descriptions.columns).filter(([field]) => !descriptions.optional.includes(field)));
+	DESCRIPTION_SHEETS.forEach(sheetName => {
+		check(sheetName, [...descriptions.id, ...Object.values(descriptions.columns).flat()], { id: descriptions.id, ...requiredDescriptionColumns });
+	});
+
+	// Plans: every column besides the label and ID columns is a tier, which needs an entry in "tiers"
+	const plans = mapping.plans;
+	check("sponsorship_plans", [...plans.label, ...plans.id, ...plans.header_rows, ...Object.keys(plans.tiers)], { label: plans.label });
+
+	return report;
+}
 
-		https
-			.get(url, response => {
-				if (response.statusCode === 307 || response.statusCode === 301) {
-					// Handle redirect with validation
-					const redirectUrl = response.headers.location;
-					if (!redirectUrl || !redirectUrl.startsWith("https://")) {
-						reject(new Error("Invalid or insecure redirect URL"));
-						return;
-					}
-					fetchCsv(redirectUrl, redirectCount + 1)
-						.then(resolve)
-						.catch(reject);
-					return;
-				}
-
-				if (response.statusCode !== 200) {
-					reject(new Error(`HTTP ${response.statusCode}: ${response.statusMessage}`));
-					return;
-				}
-
-				const chunks = [];
-				response.on("data", chunk => {
-					chunks.push(chunk);
-				});
-
-				response.on("end", () => {
-					const csvData = Buffer.concat(chunks).toString("utf8");
-					resolve(csvData);
-				});
-			})
-			.on("error", reject);
+function logSheetColumnReport(report) {
+	Object.entries(report).forEach(([sheetName, { unknown, missing }]) => {
+		if (unknown.length > 0) {
+			console.warn(`⚠ ${sheetName}: unknown column(s) not in sheet-mapping.json: ${unknown.map(header => `"${header}"`).join(", ")}`);
+		}
+		if (missing.length > 0) {
+			console.warn(`⚠ ${sheetName}: missing column(s): ${missing.join(", ")}`);
+		}
 	});
 }
 
@@ -86,221 +141,202 @@ function extractGoogleDriveId(url) {
 	// Match patterns like:
 	// https://drive.google.com/file/d/FILE_ID/view?usp=...
 	const match = url.match(/\/d\/([a-zA-Z0-9_-]+)/);
-	return match ? match[1] : null;
-}
+	if (match) return match[1];
 
-function getExtensionFromContentType(contentType) {
-	const mimeToExt = {
-		"image/jpeg": ".jpg",
-		"image/jpg": ".jpg",
-		"image/png": ".png",
-		"image/gif": ".gif",
-		"image/webp": ".webp",
-		"image/svg+xml": ".svg"
-	};
-	return mimeToExt[contentType] || ".jpg"; // default to .jpg
+	// Offline exports may reference a local file like "lunch-flag.png" instead of a Drive link;
+	// its name without extension is the image ID looked up in the --images folder
+	if (!/^[a-z]+:\/\//i.test(url) && !url.includes("/")) {
+		return url.trim().replace(/\.[^.]+$/, "") || null;
+	}
+	return null;
 }
 
-function downloadImage(fileId, outputPath) {
-	return new Promise((resolve, reject) => {
-		if (!fileId) {
-			resolve(null);
-			return;
-		}
+// Widths of the responsive variants; the largest is also the most any image is stored at
+const IMAGE_WIDTHS = [360, 720, 1080];
+const IMAGE_FORMATS = { webp: { quality: 80 }, avif: { quality: 55 } };
+const PLACEHOLDER_WIDTH = 16;
 
-		const url = `https://drive.google.com/uc?export=download&id=${fileId}`;
+// "abc.webp" → "abc"; item data keeps file names, the sheet gives bare image IDs
+function toImageId(image) {
+	return image.replace(/\.[^.]+$/, "");
+}
 
-		const handleFinalResponse = finalResponse => {
-			if (finalResponse.statusCode !== 200) {
-				reject(new Error(`Failed to download image: ${finalResponse.statusCode}`));
-				return;
-			}
+/**
+ * File names of every variant of an image
+ * @param {string} imageId - Drive ID or local file name without extension
+ * @param {number[]} widths - Variant widths, the last one being the full-size image
+ * @returns {string[]} Names like "abc.webp" (full size) and "abc-360.avif"
+ */
+function getImageVariantFiles(imageId, widths) {
+	return Object.keys(IMAGE_FORMATS).flatMap(format => widths.map((width, index) => (index === widths.length - 1 ? `${imageId}.${format}` : `${imageId}-${width}.${format}`)));
+}
 
-			// Get extension from content-type header
-			const contentType = finalResponse.headers["content-type"];
-			const ext = getExtensionFromContentType(contentType);
-			const finalOutputPath = outputPath + ext;
+/**
+ * Write the WebP and AVIF variants of an image and describe them for item.json
+ *
+ * The full-size variant is saved as <id>.webp / <id>.avif, the smaller ones as <id>-<width>.webp
+ * / .avif. Variants that already exist are kept, so this also fills in the variants of images
+ * downloaded before they were introduced.
+ * @param {string} inputPath - Downloaded image, or the existing <id>.webp
+ * @param {string} imagesDir - Output directory
+ * @param {string} imageId - Image ID, used as the file name
+ * @returns {Promise<{ width: number, height: number, widths: number[], placeholder: string }>}
+ */
+async function processImageVariants(inputPath, imagesDir, imageId) {
+	// Decode once; the input may be overwritten below when it is the existing full-size WebP
+	const { data, info } = await sharp(inputPath).rotate().toBuffer({ resolveWithObject: true });
+	const fullWidth = Math.min(info.width, IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1]);
+	const widths = [...IMAGE_WIDTHS.filter(width => width < fullWidth), fullWidth];
+	const files = getImageVariantFiles(imageId, widths);
+
+	let fileIndex = 0;
+	for (const [format, options] of Object.entries(IMAGE_FORMATS)) {
+		for (const width of widths) {
+			const outputPath = path.join(imagesDir, files[fileIndex++]);
+			if (fs.existsSync(outputPath)) continue;
+
+			await sharp(data).resize({ width, withoutEnlargement: true }).toFormat(format, options).toFile(outputPath);
+		}
+	}
 
-			const fileStream = fs.createWriteStream(finalOutputPath);
-			finalResponse.pipe(fileStream);
+	const placeholder = await sharp(data).resize({ width: PLACEHOLDER_WIDTH }).blur().webp({ quality: 40 }).toBuffer();
 
-			fileStream.on("finish", () => {
-				fileStream.close();
-				resolve(finalOutputPath);
-			});
+	return {
+		width: fullWidth,
+		height: Math.round((info.height * fullWidth) / info.width),
+		widths,
+		placeholder: `data:image/webp;base64,${placeholder.toString("base64")}`
+	};
+}
 
-			fileStream.on("error", reject);
-		};
+/**
+ * Delete images that no item references any more
+ * @param {string} imagesDir - Directory of the item images
+ * @param {Set<string>} imageIds - Image IDs still in use
+ * @returns {string[]} Names of the deleted files
+ */
+function pruneUnusedImages(imagesDir, imageIds) {
+	const formats = Object.keys(IMAGE_FORMATS).join("|");
+	const widths = IMAGE_WIDTHS.join("|");
+	// Image IDs may themselves end in "-<digits>", so try both readings of a name
+	const variantPattern = new RegExp(`^(.+?)(?:-(?:${widths}))?\\.(?:${formats})$`);
+	const isUsed = fileName => {
+		const match = fileName.match(variantPattern);
+		return match !== null && (imageIds.has(match[1]) || imageIds.has(fileName.replace(/\.[^.]+$/, "")));
+	};
 
-		https
-			.get(url, response => {
-				// Handle all redirect status codes
-				if (response.statusCode === 307 || response.statusCode === 301 || response.statusCode === 302 || response.statusCode === 303) {
-					const redirectUrl = response.headers.location;
-					if (!redirectUrl) {
-						reject(new Error("Redirect URL not found"));
-						return;
-					}
-
-					https
-						.get(redirectUrl, redirectResponse => {
-							// Handle nested redirects
-							if (redirectResponse.statusCode === 307 || redirectResponse.statusCode === 301 || redirectResponse.statusCode === 302 || redirectResponse.statusCode === 303) {
-								const secondRedirectUrl = redirectResponse.headers.location;
-								if (!secondRedirectUrl) {
-									reject(new Error("Second redirect URL not found"));
-									return;
-								}
-
-								https.get(secondRedirectUrl, handleFinalResponse).on("error", reject);
-								return;
-							}
-
-							handleFinalResponse(redirectResponse);
-						})
-						.on("error", reject);
-					return;
-				}
-
-				handleFinalResponse(response);
-			})
-			.on("error", reject);
-	});
+	const removed = fs.readdirSync(imagesDir).filter(fileName => !isUsed(fileName));
+	removed.forEach(fileName => fs.unlinkSync(path.join(imagesDir, fileName)));
+	return removed;
 }
 
-function parseCsv(csvData) {
-	return new Promise((resolve, reject) => {
-		const records = [];
-		parse(csvData, {
-			columns: true,
-			skip_empty_lines: true,
-			trim: true
-		})
-			.on("readable", function () {
-				let record;
-				while ((record = this.read())) {
-					records.push(record);
-				}
-			})
-			.on("error", reject)
-			.on("end", () => resolve(records));
-	});
-}
+async function fetchAllSheets(source = createGoogleSheetsSource({ spreadsheetId: sheetConfig.spreadsheet_id, sheets: sheetConfig.sheets })) {
+	console.log(`Fetching all sheets from ${source.name}...`);
 
-async function processImageToWebP(inputPath, maxWidth = 1920, quality = 80) {
 	try {
-		const image = sharp(inputPath);
-		const metadata = await image.metadata();
-
-		// Calculate new dimensions if width exceeds maxWidth
-		let resizeOptions = {};
-		if (metadata.width > maxWidth) {
-			resizeOptions = {
-				width: maxWidth,
-				fit: "inside",
-				withoutEnlargement: true
-			};
-		}
-
-		// Output path with .webp extension
-		const outputPath = inputPath.replace(/\.[^.]+$/, ".webp");
-
-		// Process and save as WebP
-		await image.resize(resizeOptions).webp({ quality }).toFile(outputPath);
-
-		// Delete original file if conversion successful and paths are different
-		if (outputPath !== inputPath && fs.existsSync(outputPath)) {
-			fs.unlinkSync(inputPath);
-		}
-
-		return outputPath;
+		const sheets = await source.fetchSheets(SHEET_NAMES);
+		Object.entries(sheets).forEach(([sheetName, records]) => console.log(`✓ ${sheetName}: ${records.length} records`));
+		return sheets;
 	} catch (error) {
-		console.error(`Failed to process image ${inputPath}:`, error.message);
+		console.error(`✗ Failed to fetch sheets:`, error.message);
 		throw error;
 	}
 }
 
-async function fetchAllSheets() {
-	console.log("Fetching all sheets...");
+function findItemInSheet(sheets, sheetName, itemId, idAliases = sheetMapping.descriptions.id) {
+	const sheet = sheets[sheetName];
+	if (!sheet) return null;
 
-	const fetchPromises = Object.entries(SHEET_GIDS).map(async ([sheetName, gid]) => {
-		console.log(`Fetching ${sheetName} sheet...`);
-		try {
-			const url = buildCsvUrl(gid);
-			const csvData = await fetchCsv(url);
-			const records = await parseCsv(csvData);
-			console.log(`✓ ${sheetName}: ${records.length} records`);
-			return [sheetName, records];
-		} catch (error) {
-			console.error(`✗ Failed to fetch ${sheetName}:`, error.message);
-			throw error;
-		}
-	});
+	return sheet.find(row => readColumn(row, idAliases) === itemId.toString());
+}
 
-	const results = await Promise.all(fetchPromises);
-	const sheets = Object.fromEntries(results);
+function normalizeUnit(chineseUnit, unitMap = sheetMapping.items.units) {
+	return unitMap[chineseUnit] || chineseUnit;
+}
 
-	return sheets;
+// Sub-item IDs end up in cart IDs and share links such as "1-sub-lunch*2"
+const SUB_ITEM_ID_PATTERN = /^[a-z0-9_-]+$/;
+
+/**
+ * Find the sub-item a row was in the previous item.json
+ * @param {object[]} previousSubItems - The item's sub-items in the previous item.json
+ * @param {number} index - Position of the row, from 0
+ * @param {string} name - Sub-item name in the default locale
+ * @param {string[]} names - Names of all the item's sub-items in the sheet, in the default locale
+ * @param {string} nameField - Name field of the default locale, e.g. "name_zh"
+ * @returns {object | undefined} The sub-item with the same name, or the one at the same position when it was renamed
+ */
+function findPreviousSubItem(previousSubItems, index, name, names, nameField) {
+	const sameName = previousSubItems.find(subItem => subItem[nameField] === name);
+	if (sameName) return sameName;
+
+	// A sub-item whose name is gone from the sheet was renamed, unless its row moved as well
+	const samePosition = previousSubItems[index];
+	return samePosition && !names.includes(samePosition[nameField]) ? samePosition : undefined;
 }
 
-function findItemInSheet(sheets, sheetName, itemId) {
-	const sheet = sheets[sheetName];
-	if (!sheet) return null;
+/**
+ * Give a sub-item an ID that survives reordering, inserting rows and renaming in the sheet
+ * @param {string} sheetId - Value of the sub-item ID column, empty when not filled in
+ * @param {string} name - Sub-item name in the default locale
+ * @param {Set<string>} taken - IDs already given to other sub-items of the same item
+ * @param {string} [previousId] - ID of the same sub-item in the previous item.json, see findPreviousSubItem
+ * @returns {string} The sheet ID when valid, otherwise the previous ID, otherwise the first 8 hex digits of the SHA-1 of the name
+ */
+function getSubItemId(sheetId, name, taken, previousId) {
+	const requested = sheetId.trim().toLowerCase();
+	if (requested && !SUB_ITEM_ID_PATTERN.test(requested)) {
+		console.warn(`Warning: Sub-item ID "${sheetId}" of "${name}" may only contain letters, digits, "_" and "-"; using a generated ID instead.`);
+	}
 
-	return sheet.find(row => row["編號"] === itemId || row["編號"] === itemId.toString());
-}
+	const generated = previousId && !taken.has(previousId) ? previousId : crypto.createHash("sha1").update(name).digest("hex").slice(0, 8);
+	const base = requested && SUB_ITEM_ID_PATTERN.test(requested) ? requested : generated;
+	let id = base;
+	for (let suffix = 2; taken.has(id); suffix++) {
+		id = `${base}-${suffix}`;
+	}
+	if (id !== base) console.warn(`Warning: Sub-item ID "${base}" of "${name}" is used twice in the same item; using "${id}".`);
 
-function normalizeUnit(chineseUnit) {
-	const unitMap = {
-		份: "copy",
-		個: "booth",
-		張: "ticket",
-		場: "agenda",
-		則: "ad",
-		項: "other",
-		秒: "second",
-		次: "time",
-		式: "type"
-	};
+	taken.add(id);
+	return id;
+}
 
-	return unitMap[chineseUnit] || chineseUnit;
+/**
+ * Read the zones an item is placed in, see src/data/venue.json
+ * @param {string} value - Zone IDs separated by commas or spaces, e.g. "lobby, booths"
+ * @returns {string[]} Lowercase zone IDs without duplicates
+ */
+function parsePlacement(value) {
+	const zones = value
+		.split(/[\s,，、]+/)
+		.map(zone => zone.toLowerCase())
+		.filter(Boolean);
+	return [...new Set(zones)];
 }
 
-function extractSubItems(itemRow) {
-	const subItems = [];
-	const MAX_SUB_ITEMS = 50; // Safety limit to prevent infinite loops
+/**
+ * Read the numbered sub-item columns of an item row
+ * @param {object} itemRow - Row of the items sheet
+ * @param {object} [subItemMapping] - sheet-mapping.json items.sub_items
+ * @param {string[]} [locales] - Locale fields, the default locale first
+ * @param {object[]} [previousSubItems] - The item's sub-items in the previous item.json, to keep their IDs
+ * @returns {object[]} Sub-items as written to item.json
+ */
+function extractSubItems(itemRow, subItemMapping = sheetMapping.items.sub_items, locales = sheetMapping.locales, previousSubItems = []) {
+	const rows = [];
+	const MAX_SUB_ITEMS = subItemMapping.max; // Safety limit to prevent infinite loops
+	const columns = subItemMapping.columns;
 	let index = 1;
 
 	while (index <= MAX_SUB_ITEMS) {
-		const nameZhKey = `子項目${index}`;
-		const nameEnKey = `sub projects ${index}`;
-		const priceKey = `子項目${index}價錢`;
-		const remainingKey = `子項目${index}剩餘數量`;
-		const imageKey = `子項目${index}圖片連結`;
-		const imageDescZhKey = `子項目${index}圖片 敘述`;
-		const imageDescEnKey = `子項目${index}圖片 description`;
-
-		// Check if this sub-item exists
-		if (!itemRow[nameZhKey] && !itemRow[nameEnKey]) {
-			break;
-		}
+		const names = readLocalizedColumns(itemRow, "name", columns, locales, index);
 
-		// Only add if there's actual content
-		if (itemRow[nameZhKey] || itemRow[nameEnKey]) {
-			const imageUrl = itemRow[imageKey] || "";
-			const imageId = extractGoogleDriveId(imageUrl);
-
-			subItems.push({
-				name_zh: itemRow[nameZhKey] || "",
-				name_en: itemRow[nameEnKey] || "",
-				price: itemRow[priceKey] || "",
-				remaining: itemRow[remainingKey] || "",
-				image: imageId || "",
-				image_description_zh: itemRow[imageDescZhKey] || "",
-				image_description_en: itemRow[imageDescEnKey] || ""
-			});
+		// Check if this sub-item exists in any language
+		if (!Object.values(names).some(Boolean)) {
+			break;
 		}
 
+		rows.push({ index, names, name: names[`name_${locales[0]}`] || Object.values(names).find(Boolean) });
 		index++;
 	}
 
@@ -308,67 +344,127 @@ function extractSubItems(itemRow) {
 		console.warn(`Warning: Reached maximum sub-items limit (${MAX_SUB_ITEMS}) for an item. Some sub-items may have been skipped.`);
 	}
 
-	return subItems;
+	const takenIds = new Set();
+	const allNames = rows.map(row => row.name);
+
+	return rows.map(({ index, names, name }) => {
+		const imageUrl = readColumn(itemRow, columns.image, index);
+		const imageId = extractGoogleDriveId(imageUrl);
+		const previous = findPreviousSubItem(previousSubItems, index - 1, name, allNames, `name_${locales[0]}`);
+
+		return {
+			id: getSubItemId(readColumn(itemRow, columns.id ?? [], index), name, takenIds, previous?.id),
+			...names,
+			price: readColumn(itemRow, columns.price, index),
+			remaining: readColumn(itemRow, columns.remaining, index),
+			image: imageId || "",
+			image_meta: null,
+			...readLocalizedColumns(itemRow, "image_description", columns, locales, index),
+			start_time: readColumn(itemRow, columns.start_time, index)
+		};
+	});
+}
+
+/**
+ * Map the cart IDs of sub-items whose ID changed, e.g. after an ID was filled in on the sheet
+ * @param {object} previousItems - The previous item.json
+ * @param {object} items - The new item.json
+ * @param {string} [nameField] - Name field of the default locale
+ * @returns {Record<string, string>} New cart ID by previous cart ID, e.g. { "1-sub-6291e783": "1-sub-lunch" }
+ */
+function findSubItemIdChanges(previousItems, items, nameField = `name_${sheetMapping.locales[0]}`) {
+	const changes = {};
+
+	for (const [itemId, item] of Object.entries(items)) {
+		const previousSubItems = previousItems[itemId]?.sub ?? [];
+		const ids = new Set(item.sub.map(subItem => subItem.id));
+		const names = item.sub.map(subItem => subItem[nameField]);
+
+		item.sub.forEach((subItem, index) => {
+			const previous = findPreviousSubItem(previousSubItems, index, subItem[nameField], names, nameField);
+			if (previous && previous.id !== subItem.id && !ids.has(previous.id)) {
+				changes[`${itemId}-sub-${previous.id}`] = `${itemId}-sub-${subItem.id}`;
+			}
+		});
+	}
+
+	return changes;
+}
+
+/**
+ * Add changed sub-item IDs to the legacy ID map, so saved lists and share links follow them
+ * @param {Record<string, string>} changes - See findSubItemIdChanges
+ * @param {string} [legacyPath] - The map read by src/utils/cart-store.ts
+ */
+function writeSubItemIdChanges(changes, legacyPath = "./src/data/legacy-sub-item-ids.json") {
+	if (Object.keys(changes).length === 0) return;
+
+	const legacy = readExistingData(legacyPath);
+	// Entries that pointed at a changed ID point at its new ID, so every old ID needs one lookup
+	for (const [from, to] of Object.entries(legacy)) {
+		legacy[from] = changes[to] ?? to;
+	}
+	Object.assign(legacy, changes);
+
+	fs.writeFileSync(legacyPath, JSON.stringify(legacy, null, "\t") + "\n", "utf8");
+	Object.entries(changes).forEach(([from, to]) => console.log(`↻ Sub-item ${from} is now ${to}`));
+	console.log(`✓ Recorded ${Object.keys(changes).length} changed sub-item ID(s) in ${legacyPath}`);
 }
 
-function mergeSheetData(sheets) {
+function mergeSheetData(sheets, mapping = sheetMapping, previousItems = {}) {
 	console.log("Merging sheet data...");
 	const items = {};
 	const itemsSheet = sheets.items;
+	const columns = mapping.items.columns;
+	const descriptionColumns = mapping.descriptions.columns;
 
 	if (!itemsSheet || itemsSheet.length === 0) {
 		throw new Error("Items sheet is empty or not found");
 	}
 
 	itemsSheet.forEach(itemRow => {
-		const itemId = itemRow["編號"];
+		const itemId = readColumn(itemRow, mapping.items.id);
 		if (!itemId) return;
 
 		// Find corresponding rows in category sheets
-		const globalDesc = findItemInSheet(sheets, "global_description", itemId);
-		const talentRec = findItemInSheet(sheets, "talent_recruitment", itemId);
-		const brandExp = findItemInSheet(sheets, "brand_exposure", itemId);
-		const productProm = findItemInSheet(sheets, "product_promotion", itemId);
+		const [globalDesc, talentRec, brandExp, productProm] = DESCRIPTION_SHEETS.map(sheetName => findItemInSheet(sheets, sheetName, itemId, mapping.descriptions.id));
 
 		// Extract sub-items
-		const subItems = extractSubItems(itemRow);
+		const subItems = extractSubItems(itemRow, mapping.items.sub_items, mapping.locales, previousItems[itemId]?.sub);
+
+		// Category copy comes from one column per language, e.g. "文案" and "description"
+		const readDescriptions = (row, sheetName) => Object.fromEntries(mapping.locales.map(locale => [`${sheetName}_${locale}`, readColumn(row, descriptionColumns[locale] ?? [])]));
 
 		// Extract image ID from the main image URL
-		const mainImageUrl = itemRow["圖片連結"] || "";
+		const mainImageUrl = readColumn(itemRow, columns.image);
 		const mainImageId = extractGoogleDriveId(mainImageUrl);
 
 		items[itemId] = {
-			name_zh: itemRow["項目"] || itemRow["項目名稱"] || "",
-			name_en: itemRow["project"] || "",
-			order: parseInt(itemRow["預設推薦排序"] || "0") || 0,
-			quantity: itemRow["數量"] || "",
-			remaining: itemRow["剩餘數量"] || "",
-			unit: normalizeUnit(itemRow["單位"] || ""),
-			type: itemRow["類型"] || "",
-
-			global_description_zh: globalDesc?.["文案"] || "",
-			global_description_en: globalDesc?.["description"] || "",
-
-			talent_recruitment_zh: talentRec?.["文案"] || "",
-			talent_recruitment_en: talentRec?.["description"] || "",
-
-			brand_exposure_zh: brandExp?.["文案"] || "",
-			brand_exposure_en: brandExp?.["description"] || "",
-
-			product_promotion_zh: productProm?.["文案"] || "",
-			product_promotion_en: productProm?.["description"] || "",
+			...readLocalizedColumns(itemRow, "name", columns, mapping.locales),
+			order: parseInt(readColumn(itemRow, columns.order) || "0") || 0,
+			quantity: readColumn(itemRow, columns.quantity),
+			remaining: readColumn(itemRow, columns.remaining),
+			unit: normalizeUnit(readColumn(itemRow, columns.unit), mapping.items.units),
+			type: readColumn(itemRow, columns.type),
+
+			...readDescriptions(globalDesc, "global_description"),
+			...readDescriptions(talentRec, "talent_recruitment"),
+			...readDescriptions(brandExp, "brand_exposure"),
+			...readDescriptions(productProm, "product_promotion"),
 
 			image: mainImageId || "",
-			image_description_zh: itemRow["圖片 敘述"] || "",
-			image_description_en: itemRow["圖片 description"] || "",
+			image_meta: null,
+			...readLocalizedColumns(itemRow, "image_description", columns, mapping.locales),
 
-			price: itemRow["價錢（這欄與贊助分級和子項目是互斥關係）"] || "",
+			price: readColumn(itemRow, columns.price),
 
-			deadline: itemRow["截止時間"] || "",
+			deadline: readColumn(itemRow, columns.deadline),
+			start_time: readColumn(itemRow, columns.start_time),
+			placement: parsePlacement(readColumn(itemRow, columns.placement ?? [])),
 
-			talent_recruitment_order: parseInt(talentRec?.["排序"] || "0") || 0,
-			brand_exposure_order: parseInt(brandExp?.["排序"] || "0") || 0,
-			product_promotion_order: parseInt(productProm?.["排序"] || "0") || 0,
+			talent_recruitment_order: parseInt(readColumn(talentRec, descriptionColumns.order) || "0") || 0,
+			brand_exposure_order: parseInt(readColumn(brandExp, descriptionColumns.order) || "0") || 0,
+			product_promotion_order: parseInt(readColumn(productProm, descriptionColumns.order) || "0") || 0,
 
 			sub: subItems
 		};
@@ -378,102 +474,265 @@ function mergeSheetData(sheets) {
 	return items;
 }
 
-async function downloadAllImages(itemsData) {
+// First 8 hex digits of the SHA-1 of the fields, so clients can tell when any of them changed
+function hashAvailability(fields) {
+	return crypto.createHash("sha1").update(JSON.stringify(fields)).digest("hex").slice(0, 8);
+}
+
+/**
+ * Collect what decides whether items can be added to the interest list, for src/data/availability.json
+ * The site polls that file, so sold-out items and changed deadlines show up before the next deploy
+ * @param {object} itemsData - Merged items keyed by ID, as written to item.json
+ * @returns {{ version: string, items: object }} Stock, deadlines and a version hash of every item and sub-item
+ */
+function buildAvailability(itemsData) {
+	const items = Object.fromEntries(
+		Object.entries(itemsData).map(([itemId, item]) => {
+			const sub = item.sub.map(subItem => {
+				const fields = { remaining: subItem.remaining, start_time: subItem.start_time };
+				return { id: subItem.id, ...fields, version: hashAvailability(fields) };
+			});
+			const fields = { remaining: item.remaining, deadline: item.deadline, start_time: item.start_time };
+			return [itemId, { ...fields, version: hashAvailability({ ...fields, sub: sub.map(subItem => subItem.version) }), sub }];
+		})
+	);
+
+	return { version: hashAvailability(Object.values(items).map(item => item.version)), items };
+}
+
+function writeAvailability(itemsData, outputPath = "./src/data/availability.json") {
+	writeFileAtomic(outputPath, JSON.stringify(buildAvailability(itemsData), null, 2));
+	console.log(`✓ Successfully wrote availability to ${outputPath}`);
+}
+
+// Every variant file an image may have, whatever its full width
+function removeImageVariants(imagesDir, imageId) {
+	getImageVariantFiles(imageId, [...IMAGE_WIDTHS, 0]).forEach(fileName => fs.rmSync(path.join(imagesDir, fileName), { force: true }));
+}
+
+// Whether every variant listed in image_meta exists and can be read as an image
+async function hasIntactVariants(imagesDir, imageId, meta) {
+	if (!meta) return false;
+
+	try {
+		for (const fileName of getImageVariantFiles(imageId, meta.widths)) {
+			await sharp(path.join(imagesDir, fileName)).metadata();
+		}
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function hashFile(filePath) {
+	return crypto.createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+}
+
+/**
+ * Read the image manifest, which records what every image in public/items was generated from
+ * @param {string} manifestPath - Path of image-manifest.json
+ * @returns {Record<string, { sha256: string | null, image_meta: object }>} Image ID -> hash of the source file and its image_meta
+ */
+function readImageManifest(manifestPath) {
+	try {
+		return JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Run a task for every entry, at most `limit` at a time
+ * @returns {Promise<Array>} Results in the order of the entries
+ */
+async function mapWithConcurrency(entries, limit, task) {
+	const results = new Array(entries.length);
+	let nextIndex = 0;
+
+	const worker = async () => {
+		while (nextIndex < entries.length) {
+			const index = nextIndex++;
+			results[index] = await task(entries[index]);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(limit, entries.length) }, worker));
+	return results;
+}
+
+/**
+ * Download the item images and write their responsive variants to imagesDir
+ *
+ * Every image is downloaded again and compared with the SHA-256 in the manifest: variants are
+ * only regenerated when the file behind an image ID changed or the existing variants are missing
+ * or unreadable. When a download fails, the existing variants are kept.
+ *
+ * Sets image to the full-size file name and image_meta to its dimensions, variant widths and
+ * blur placeholder, on every item and sub-item. Files of images no item uses are deleted.
+ * @param {Record<string, object>} itemsData - Merged items, updated in place
+ * @param {{ imagesDir?: string, manifestPath?: string, concurrency?: number, fetchImage?: (imageId: string, outputPath: string) => Promise<string> }} options
+ */
+async function downloadAllImages(itemsData, { imagesDir = "./public/items", manifestPath = "./src/data/image-manifest.json", concurrency = 4, fetchImage = downloadImage } = {}) {
 	console.log("Downloading images...");
 
 	// Create images directory if it doesn't exist (using public for stable URLs)
-	const imagesDir = "./public/items";
-
 	if (!fs.existsSync(imagesDir)) {
 		fs.mkdirSync(imagesDir, { recursive: true });
 		console.log(`✓ Created directory: ${imagesDir}`);
 	}
 
-	const downloadTasks = [];
-	const imageIds = new Set();
-	const imageIdToFileName = {}; // Map to store ID -> filename with extension
+	const records = Object.values(itemsData).flatMap(item => [item, ...item.sub]);
+	const imageIds = new Set(records.filter(record => record.image).map(record => toImageId(record.image)));
+	const previousManifest = readImageManifest(manifestPath);
+	const manifest = {};
 
-	// Collect all unique image IDs
-	Object.values(itemsData).forEach(item => {
-		if (item.image) {
-			imageIds.add(item.image);
+	console.log(`Found ${imageIds.size} unique images to process`);
+
+	// Downloaded under another name, since the source may already be a WebP like the output
+	const downloads = await mapWithConcurrency([...imageIds], concurrency, async imageId => {
+		try {
+			const filePath = await fetchImage(imageId, path.join(imagesDir, `${imageId}.download`));
+			console.log(`✓ Downloaded ${path.basename(filePath)}`);
+			return { imageId, filePath };
+		} catch (error) {
+			return { imageId, error };
 		}
-		item.sub.forEach(subItem => {
-			if (subItem.image) {
-				imageIds.add(subItem.image);
-			}
-		});
 	});
 
-	console.log(`Found ${imageIds.size} unique images to process`);
+	// Images are processed one at a time, since encoding AVIF takes a lot of memory
+	for (const { imageId, filePath, error } of downloads) {
+		const previous = previousManifest[imageId];
+		const existingPath = path.join(imagesDir, `${imageId}.webp`);
 
-	// Check existing files and build mapping
-	const existingFiles = fs.existsSync(imagesDir) ? fs.readdirSync(imagesDir) : [];
-	const existingImageIds = new Set();
+		try {
+			if (error) {
+				if (!fs.existsSync(existingPath)) throw error;
+
+				console.warn(`⚠ Could not download ${imageId} (${error.message}), keeping the existing image`);
+				const imageMeta = (await hasIntactVariants(imagesDir, imageId, previous?.image_meta)) ? previous.image_meta : await processImageVariants(existingPath, imagesDir, imageId);
+				manifest[imageId] = { sha256: previous?.sha256 ?? null, image_meta: imageMeta };
+				continue;
+			}
 
-	existingFiles.forEach(fileName => {
-		const imageId = fileName.replace(/\.[^.]+$/, ""); // Remove extension
-		if (imageIds.has(imageId)) {
-			existingImageIds.add(imageId);
-			imageIdToFileName[imageId] = fileName;
+			const sha256 = hashFile(filePath);
+			if (previous?.sha256 === sha256 && (await hasIntactVariants(imagesDir, imageId, previous.image_meta))) {
+				manifest[imageId] = previous;
+				console.log(`⊘ Skipped ${imageId} (unchanged)`);
+				continue;
+			}
+
+			// Changed under the same ID, broken, or generated before the manifest: start over
+			if (previous?.sha256 && previous.sha256 !== sha256) console.log(`↻ ${imageId} changed, regenerating its variants`);
+			removeImageVariants(imagesDir, imageId);
+
+			const imageMeta = await processImageVariants(filePath, imagesDir, imageId);
+			manifest[imageId] = { sha256, image_meta: imageMeta };
+			console.log(`✓ Converted ${imageId} to ${imageMeta.widths.join("/")}px WebP and AVIF`);
+		} catch (err) {
+			console.error(`✗ Failed to process image ${imageId}:`, err.message);
+		} finally {
+			if (filePath) fs.rmSync(filePath, { force: true });
 		}
-	});
+	}
 
-	console.log(`✓ Found ${existingImageIds.size} existing images, need to download ${imageIds.size - existingImageIds.size} new images`);
+	// Update itemsData with the full-size file names and their metadata
+	records.forEach(record => {
+		if (!record.image) return;
 
-	// Download only missing images
-	for (const imageId of imageIds) {
-		if (existingImageIds.has(imageId)) {
-			console.log(`⊘ Skipped ${imageIdToFileName[imageId]} (already exists)`);
-			continue;
+		const imageId = toImageId(record.image);
+		if (manifest[imageId]) {
+			record.image = `${imageId}.webp`;
+			record.image_meta = manifest[imageId].image_meta;
 		}
+	});
+
+	writeFileAtomic(manifestPath, JSON.stringify(manifest, null, 2));
 
-		const outputPath = path.join(imagesDir, imageId);
-
-		downloadTasks.push(
-			downloadImage(imageId, outputPath)
-				.then(async filePath => {
-					console.log(`✓ Downloaded ${path.basename(filePath)}`);
-
-					// Process image to WebP
-					const webpPath = await processImageToWebP(filePath, 1080, 80);
-					const webpFileName = path.basename(webpPath);
-					imageIdToFileName[imageId] = webpFileName;
-					console.log(`✓ Converted to WebP: ${webpFileName}`);
-				})
-				.catch(err => console.error(`✗ Failed to download ${imageId}:`, err.message))
-		);
+	const removed = pruneUnusedImages(imagesDir, imageIds);
+	if (removed.length > 0) {
+		console.log(`✓ Removed ${removed.length} unused image file(s): ${removed.join(", ")}`);
 	}
 
-	await Promise.all(downloadTasks);
+	console.log(`✓ Image download complete`);
+}
 
-	// Update itemsData with filenames including extensions
-	Object.values(itemsData).forEach(item => {
-		if (item.image && imageIdToFileName[item.image]) {
-			item.image = imageIdToFileName[item.image];
+// Usage:
+//   pnpm fetch-data                                             Published Google Sheets (default)
+//   pnpm fetch-data --source csv --path <dir> [--images <dir>]   One <sheet name>.csv per sheet
+//   pnpm fetch-data --source xlsx --path <file> [--images <dir>] One worksheet per sheet
+// Add --report-dir <dir> to write data-changes.md and data-changes.json there
+//   pnpm fetch-data --availability-only                         Rewrite src/data/availability.json from item.json
+function parseCliOptions(args) {
+	const { values } = parseArgs({
+		args,
+		options: {
+			source: { type: "string", default: "sheets" },
+			path: { type: "string" },
+			images: { type: "string" },
+			"report-dir": { type: "string" },
+			"availability-only": { type: "boolean", default: false }
 		}
-		item.sub.forEach(subItem => {
-			if (subItem.image && imageIdToFileName[subItem.image]) {
-				subItem.image = imageIdToFileName[subItem.image];
-			}
-		});
 	});
+	return values;
+}
 
-	console.log(`✓ Image download complete`);
+// Read the currently committed data, so the change report has something to compare against
+function readExistingData(filePath) {
+	try {
+		return JSON.parse(fs.readFileSync(filePath, "utf8"));
+	} catch {
+		return {};
+	}
+}
+
+function writeChangeReport(report, reportDir) {
+	const markdown = formatChangeReportMarkdown(report);
+
+	if (reportDir) {
+		fs.mkdirSync(reportDir, { recursive: true });
+		fs.writeFileSync(path.join(reportDir, "data-changes.json"), JSON.stringify(report, null, 2), "utf8");
+		fs.writeFileSync(path.join(reportDir, "data-changes.md"), markdown, "utf8");
+		console.log(`✓ Wrote change report to ${reportDir}`);
+	} else {
+		console.log(`\n${markdown}`);
+	}
+
+	if (report.risks.length > 0) {
+		console.warn(`⚠ ${report.risks.length} change(s) need review:`);
+		report.risks.forEach(risk => console.warn(`  - ${risk.file} › ${risk.name} (${risk.id}) › ${risk.field}: ${risk.message}`));
+	}
 }
 
 async function main() {
 	try {
-		console.log("Starting Google Sheets to JSON conversion...");
+		const options = parseCliOptions(process.argv.slice(2));
+
+		// After editing item.json by hand, without fetching the sheets again
+		if (options["availability-only"]) {
+			writeAvailability(readExistingData("./src/data/item.json"));
+			process.exit(0);
+		}
+
+		const source = createSource(options, sheetConfig);
+		console.log(`Starting ${source.name} to JSON conversion...`);
+
+		const previousData = {
+			items: readExistingData("./src/data/item.json"),
+			plans: readExistingData("./src/data/plan.json")
+		};
 
 		// Fetch all sheets
-		const sheets = await fetchAllSheets();
+		const sheets = await fetchAllSheets(source);
+
+		// Compare the sheet headers with sheet-mapping.json
+		logSheetColumnReport(checkSheetColumns(sheets));
 
 		// Merge data
-		const mergedData = mergeSheetData(sheets);
+		const mergedData = mergeSheetData(sheets, sheetMapping, previousData.items);
+		writeSubItemIdChanges(findSubItemIdChanges(previousData.items, mergedData));
 
 		// Download images
-		await downloadAllImages(mergedData);
+		await downloadAllImages(mergedData, { fetchImage: source.fetchImage });
 
 		// Write to file
 		const outputPath = "./src/data/item.json";
@@ -487,9 +746,15 @@ async function main() {
 			throw error;
 		}
 
+		// Stock and deadlines for the live availability refresh on the site
+		writeAvailability(mergedData);
+
 		// Generate and save plans using the same sheets data and items data
 		const plansData = await fetchAndSavePlans(sheets, mergedData);
 
+		// Report what this fetch changed
+		writeChangeReport(buildChangeReport(previousData, { items: mergedData, plans: plansData }), options["report-dir"]);
+
 		// Display summary
 		console.log("\nSummary:");
 		console.log(`- Total items: ${Object.keys(mergedData).length}`);
@@ -509,7 +774,7 @@ if (process.argv[1] === new URL(import.meta.url).pathname) {
 	main();
 }
 
-function processPlanData(planSheet, itemsData) {
+function processPlanData(planSheet, itemsData, mapping = sheetMapping.plans, locales = sheetMapping.locales) {
 	console.log("Processing sponsorship plans data...");
 
 	if (!planSheet || planSheet.length === 0) {
@@ -532,17 +797,17 @@ function processPlanData(planSheet, itemsData) {
 	const columnKeys = Object.keys(firstRow);
 	const planTiers = [];
 
-	// Get tier names from column keys, skipping first two columns ('' and '編號')
-	columnKeys.forEach((key, index) => {
+	// Get tier names from column keys, skipping the label and ID columns ('' and '編號')
+	const nonTierColumns = [...mapping.label, ...mapping.id, ...mapping.header_rows];
+	columnKeys.forEach(key => {
 		// Skip empty keys and non-tier columns
-		if (!key || key === "編號" || key === "項目") {
+		if (!key || nonTierColumns.includes(key)) {
 			return;
 		}
 
 		planTiers.push({
 			columnKey: key,
 			name_zh: key,
-			name_en: "", // Will be set later
 			id: key.toLowerCase()
 		});
 	});
@@ -556,23 +821,34 @@ function processPlanData(planSheet, itemsData) {
 	// Process plan data
 	const plans = {};
 
-	// Generate English names and IDs mapping
-	const nameMap = {
-		領航級: { en: "Navigator Tier", id: "navigator" },
-		深耕級: { en: "Deep Cultivation Tier", id: "deep_cultivation" },
-		前瞻級: { en: "Visionary Tier", id: "visionary" },
-		新芽級: { en: "New Sprout Tier", id: "new_sprout" }
-	};
+	// Names in other languages, IDs and display metadata come from the "tiers" mapping; unmapped tiers keep their sheet name.
+	// The column headers are in the sheet's language, the first of the mapped locales.
+	const [sheetLocale, ...otherLocales] = locales;
+	planTiers.forEach(tier => {
+		const mapped = mapping.tiers[tier.name_zh];
+		if (!mapped) {
+			console.warn(`⚠ Tier "${tier.name_zh}" is not in sheet-mapping.json, using its name as ID and name in every language`);
+		}
+		tier.planId = mapped?.id || tier.id;
+		tier.names = {
+			[`name_${sheetLocale}`]: tier.name_zh,
+			...Object.fromEntries(otherLocales.map(locale => [`name_${locale}`, mapped?.[`name_${locale}`] || tier.name_zh]))
+		};
+		tier.display = {
+			color: mapped?.color || "",
+			...Object.fromEntries(locales.map(locale => [`badge_${locale}`, mapped?.[`badge_${locale}`] || ""])),
+			limit: null,
+			remaining: null
+		};
+	});
 
 	planTiers.forEach((tier, tierIndex) => {
-		const mapped = nameMap[tier.name_zh] || { en: tier.name_zh, id: tier.id };
-
-		plans[mapped.id] = {
-			id: mapped.id,
-			name_zh: tier.name_zh,
-			name_en: mapped.en,
+		plans[tier.planId] = {
+			id: tier.planId,
+			...tier.names,
 			price: tier.price,
 			order: tierIndex + 1,
+			display: tier.display,
 			benefits: []
 		};
 	});
@@ -581,8 +857,8 @@ function processPlanData(planSheet, itemsData) {
 	for (let rowIndex = 1; rowIndex < planSheet.length; rowIndex++) {
 		const row = planSheet[rowIndex];
 
-		// Extract item name from the first column (which has empty key '')
-		const itemName = row[""] ? row[""].toString().trim() : "";
+		// Extract item name from the label column (the first column, which has empty key '')
+		const itemName = readColumn(row, mapping.label).toString().trim();
 
 		// Get the ID from the dynamic mapping built from items data
 		const itemId = itemNameToId[itemName] || "";
@@ -592,13 +868,23 @@ function processPlanData(planSheet, itemsData) {
 			continue;
 		}
 
+		// Rows with the number of sponsor slots per tier, e.g. "限量名額" and "剩餘名額"
+		const slotField = mapping.limit_row.includes(itemName) ? "limit" : mapping.remaining_row.includes(itemName) ? "remaining" : null;
+		if (slotField) {
+			planTiers.forEach(tier => {
+				const count = parseInt(row[tier.columnKey], 10);
+				plans[tier.planId].display[slotField] = Number.isNaN(count) ? null : count;
+			});
+			continue;
+		}
+
 		// Skip row header items (編號 column contains '項目' or similar headers)
-		if (itemName === "項目" || row["編號"] === "項目") {
+		if (mapping.header_rows.includes(itemName) || mapping.header_rows.includes(readColumn(row, mapping.id))) {
 			continue;
 		}
 
 		// Skip obvious category headers (items that don't exist in our mapping AND look like categories)
-		const categoryPattern = /^(年會現場|Logo曝光|網路宣傳|.*曝光)$/;
+		const categoryPattern = new RegExp(`^(${mapping.category_headers.join("|")})$`);
 		if (!itemNameToId.hasOwnProperty(itemName) && categoryPattern.test(itemName)) {
 			continue;
 		}
@@ -614,10 +900,8 @@ function processPlanData(planSheet, itemsData) {
 				quantity: quantity
 			};
 
-			const mapped = nameMap[tier.name_zh] || { en: tier.name_zh, id: tier.id };
-			const planId = mapped.id;
-			if (plans[planId]) {
-				plans[planId].benefits.push(benefit);
+			if (plans[tier.planId]) {
+				plans[tier.planId].benefits.push(benefit);
 			}
 		});
 	}
@@ -658,4 +942,21 @@ async function fetchAndSavePlans(sheets, itemsData) {
 	}
 }
 
-export { fetchAllSheets, mergeSheetData, processPlanData, fetchAndSavePlans };
+export {
+	fetchAllSheets,
+	parseCsv,
+	readColumn,
+	checkSheetColumns,
+	extractSubItems,
+	findSubItemIdChanges,
+	writeSubItemIdChanges,
+	parsePlacement,
+	mergeSheetData,
+	buildAvailability,
+	processPlanData,
+	fetchAndSavePlans,
+	downloadImage,
+	downloadAllImages,
+	processImageVariants,
+	pruneUnusedImages
+};
@@ -0,0 +1,108 @@
+/**
+ * Local stand-in for the sponsor inquiry webhook.
+ *
+ * Build or run the site with PUBLIC_INQUIRY_WEBHOOK_URL pointing here to see what the sponsor
+ * form sends (see toInquiryPayload in src/utils/inquiry.ts). Received inquiries are printed and
+ * appended to --out as JSON lines. --fail <status> answers every request with that status, to
+ * try the retry queue (5xx and 429 are retried, other statuses are dropped).
+ */
+
+import fs from "fs";
+import http from "http";
+import { parseArgs } from "util";
+
+// Version 2 replaced cart[].sub_index with the stable cart[].sub_item_id
+const PAYLOAD_VERSION = 2;
+
+// Usage:
+//   pnpm inquiry-server [--port 8787] [--out inquiries.jsonl] [--fail 503]
+function parseCliOptions(args) {
+	const { values } = parseArgs({
+		args,
+		options: {
+			port: { type: "string", default: "8787" },
+			out: { type: "string" },
+			fail: { type: "string" }
+		}
+	});
+	return values;
+}
+
+/**
+ * Check that a request body looks like an inquiry payload
+ * @param {unknown} payload - Parsed JSON body
+ * @returns {string[]} Problems found, empty when the payload is valid
+ */
+function validatePayload(payload) {
+	if (typeof payload !== "object" || payload === null) return ["expected a JSON object"];
+
+	const problems = [];
+	if (payload.version !== PAYLOAD_VERSION) problems.push(`unsupported version ${payload.version}`);
+	if (typeof payload.sponsor !== "object" || payload.sponsor === null) problems.push("missing sponsor");
+	if (typeof payload.message !== "string") problems.push("missing message");
+	if (!Array.isArray(payload.cart)) problems.push("missing cart");
+	return problems;
+}
+
+/**
+ * Create the stand-in server
+ * @param {{ out?: string, fail?: string }} options - CLI options
+ * @returns {http.Server}
+ */
+function createInquiryServer(options = {}) {
+	return http.createServer((req, res) => {
+		// The site is served from another origin during development
+		res.setHeader("Access-Control-Allow-Origin", "*");
+		res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+		res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+		if (req.method === "OPTIONS") {
+			res.writeHead(204).end();
+			return;
+		}
+		if (req.method !== "POST") {
+			res.writeHead(405).end();
+			return;
+		}
+
+		let body = "";
+		req.on("data", chunk => (body += chunk));
+		req.on("end", () => {
+			if (options.fail) {
+				console.warn(`✗ Answering ${options.fail} as requested by --fail`);
+				res.writeHead(parseInt(options.fail, 10)).end();
+				return;
+			}
+
+			let payload;
+			try {
+				payload = JSON.parse(body);
+			} catch {
+				res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ errors: ["body is not valid JSON"] }));
+				return;
+			}
+
+			const problems = validatePayload(payload);
+			if (problems.length > 0) {
+				console.warn(`✗ Rejected inquiry: ${problems.join(", ")}`);
+				res.writeHead(422, { "Content-Type": "application/json" }).end(JSON.stringify({ errors: problems }));
+				return;
+			}
+
+			console.log(`✓ Inquiry from ${payload.sponsor.organization} (${payload.sponsor.contact}), ${payload.cart.length} item(s): ${payload.cart_state || "-"}`);
+			if (options.out) fs.appendFileSync(options.out, `${JSON.stringify(payload)}\n`, "utf8");
+
+			res.writeHead(201, { "Content-Type": "application/json" }).end(JSON.stringify({ ok: true }));
+		});
+	});
+}
+
+export { createInquiryServer, validatePayload };
+
+// Run if this file is executed directly
+if (process.argv[1] === new URL(import.meta.url).pathname) {
+	const options = parseCliOptions(process.argv.slice(2));
+	createInquiryServer(options).listen(parseInt(options.port, 10), () => {
+		console.log(`Inquiry webhook listening on http://localhost:${options.port}`);
+	});
+}
@@ -0,0 +1,385 @@
+/**
+ * Data sources for the sheet importer.
+ *
+ * Every source provides the same two operations, so fetch-and-merge.js can run one
+ * merge pipeline no matter where the data comes from:
+ * - fetchSheets(sheetNames): resolves { [sheetName]: records[] } parsed like the published CSV
+ * - fetchImage(imageId, outputPath): writes the image to `${outputPath}.<ext>` and resolves that path
+ */
+
+import fs from "fs";
+import http from "http";
+import https from "https";
+import path from "path";
+import { parse } from "csv-parse";
+
+function parseCsv(csvData) {
+	return new Promise((resolve, reject) => {
+		const records = [];
+		parse(csvData, {
+			columns: true,
+			skip_empty_lines: true,
+			trim: true
+		})
+			.on("readable", function () {
+				let record;
+				while ((record = this.read())) {
+					records.push(record);
+				}
+			})
+			.on("error", reject)
+			.on("end", () => resolve(records));
+	});
+}
+
+function buildCsvUrl(spreadsheetId, gid) {
+	return `https://docs.google.com/spreadsheets/d/e/${spreadsheetId}/pub?gid=${gid}&single=true&output=csv`;
+}
+
+function fetchCsv(url, redirectCount = 0) {
+	const MAX_REDIRECTS = 5;
+
+	return new Promise((resolve, reject) => {
+		if (redirectCount > MAX_REDIRECTS) {
+			reject(new Error(`Too many redirects (${redirectCount}). Possible redirect loop.`));
+			return;
+		}
+
+		https
+			.get(url, response => {
+				if (response.statusCode === 307 || response.statusCode === 301) {
+					// Handle redirect with validation
+					const redirectUrl = response.headers.location;
+					if (!redirectUrl || !redirectUrl.startsWith("https://")) {
+						reject(new Error("Invalid or insecure redirect URL"));
+						return;
+					}
+					fetchCsv(redirectUrl, redirectCount + 1)
+						.then(resolve)
+						.catch(reject);
+					return;
+				}
+
+				if (response.statusCode !== 200) {
+					reject(new Error(`HTTP ${response.statusCode}: ${response.statusMessage}`));
+					return;
+				}
+
+				const chunks = [];
+				response.on("data", chunk => {
+					chunks.push(chunk);
+				});
+
+				response.on("end", () => {
+					const csvData = Buffer.concat(chunks).toString("utf8");
+					resolve(csvData);
+				});
+			})
+			.on("error", reject);
+	});
+}
+
+const DRIVE_DOWNLOAD_URL = "https://drive.google.com/uc";
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const DOWNLOAD_DEFAULTS = {
+	maxRedirects: 10, // Drive sends about three: uc → usercontent → the file
+	retries: 3,
+	retryDelay: 1000, // Doubled after every failed attempt
+	timeout: 30000
+};
+
+class DownloadError extends Error {
+	constructor(message, retryable) {
+		super(message);
+		this.name = "DownloadError";
+		this.retryable = retryable; // true for network errors, timeouts, 429 and 5xx
+	}
+}
+
+// Pick the request module for a URL (http is only used by local test servers)
+function getClient(url) {
+	return url.startsWith("http://") ? http : https;
+}
+
+function requestOnce(url, timeout) {
+	return new Promise((resolve, reject) => {
+		const request = getClient(url).get(url, response => {
+			// Redirect bodies are never used
+			if (REDIRECT_STATUSES.includes(response.statusCode)) {
+				response.resume();
+				resolve({ statusCode: response.statusCode, headers: response.headers, body: null });
+				return;
+			}
+
+			const chunks = [];
+			response.on("data", chunk => chunks.push(chunk));
+			response.on("end", () => resolve({ statusCode: response.statusCode, headers: response.headers, body: Buffer.concat(chunks) }));
+			response.on("error", error => reject(new DownloadError(error.message, true)));
+		});
+
+		request.setTimeout(timeout, () => request.destroy(new DownloadError(`No response within ${timeout} ms`, true)));
+		request.on("error", error => reject(error instanceof DownloadError ? error : new DownloadError(error.message, true)));
+	});
+}
+
+async function requestFollowingRedirects(url, { maxRedirects, timeout }) {
+	let currentUrl = url;
+
+	for (let redirectCount = 0; ; redirectCount++) {
+		const response = await requestOnce(currentUrl, timeout);
+		if (!REDIRECT_STATUSES.includes(response.statusCode)) return response;
+
+		if (redirectCount >= maxRedirects) {
+			throw new DownloadError(`Too many redirects (${redirectCount}). Possible redirect loop.`, false);
+		}
+		if (!response.headers.location) {
+			throw new DownloadError("Redirect URL not found", false);
+		}
+		currentUrl = new URL(response.headers.location, currentUrl).href;
+	}
+}
+
+function startsWithBytes(buffer, bytes, offset = 0) {
+	return buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte);
+}
+
+function startsWithText(buffer, text, offset = 0) {
+	return buffer.subarray(offset, offset + text.length).toString("latin1") === text;
+}
+
+const IMAGE_SIGNATURES = [
+	{ ext: ".jpg", matches: buffer => startsWithBytes(buffer, [0xff, 0xd8, 0xff]) },
+	{ ext: ".png", matches: buffer => startsWithBytes(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+	{ ext: ".gif", matches: buffer => startsWithText(buffer, "GIF87a") || startsWithText(buffer, "GIF89a") },
+	{ ext: ".webp", matches: buffer => startsWithText(buffer, "RIFF") && startsWithText(buffer, "WEBP", 8) },
+	{ ext: ".avif", matches: buffer => startsWithText(buffer, "ftypavif", 4) || startsWithText(buffer, "ftypavis", 4) },
+	{ ext: ".svg", matches: buffer => /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(buffer.subarray(0, 1024).toString("utf8")) }
+];
+
+/**
+ * Tell the image format from the first bytes of a file, since Drive's content-type is not reliable
+ * @param {Buffer} buffer - Downloaded body
+ * @returns {string} Extension like ".png"
+ * @throws {DownloadError} When the body is an HTML page (e.g. Drive's sign-in or virus scan page) or no supported image
+ */
+function sniffImageType(buffer) {
+	const signature = IMAGE_SIGNATURES.find(({ matches }) => matches(buffer));
+	if (signature) return signature.ext;
+
+	if (/^\s*<(!DOCTYPE html|html)[\s>]/i.test(buffer.subarray(0, 1024).toString("utf8"))) {
+		throw new DownloadError("Got an HTML page instead of an image; check that the file is shared with anyone with the link", false);
+	}
+	throw new DownloadError(`Got ${buffer.length} bytes that are not a supported image`, false);
+}
+
+/**
+ * Write a file so that readers see either the old or the new contents, never a partial file
+ * @param {string} filePath - Destination
+ * @param {string | Buffer} data - Contents
+ */
+function writeFileAtomic(filePath, data) {
+	const tempPath = `${filePath}.${process.pid}.tmp`;
+	try {
+		fs.writeFileSync(tempPath, data);
+		fs.renameSync(tempPath, filePath);
+	} catch (error) {
+		fs.rmSync(tempPath, { force: true });
+		throw error;
+	}
+}
+
+function wait(ms) {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Download a Drive file and save it under the extension of its actual format
+ *
+ * Network errors, timeouts, 429 and 5xx responses are retried with exponential backoff; other
+ * statuses and bodies that are not images fail right away.
+ * @param {string} fileId - Drive file ID
+ * @param {string} outputPath - Path without extension
+ * @param {string} downloadUrl - Drive download endpoint
+ * @param {Partial<typeof DOWNLOAD_DEFAULTS>} options - Limits, mostly for tests
+ * @returns {Promise<string | null>} Path of the written file, or null without a file ID
+ */
+async function downloadImage(fileId, outputPath, downloadUrl = DRIVE_DOWNLOAD_URL, options = {}) {
+	if (!fileId) return null;
+
+	const { maxRedirects, retries, retryDelay, timeout } = { ...DOWNLOAD_DEFAULTS, ...options };
+	const url = `${downloadUrl}?export=download&id=${encodeURIComponent(fileId)}`;
+
+	for (let attempt = 0; ; attempt++) {
+		try {
+			const response = await requestFollowingRedirects(url, { maxRedirects, timeout });
+			if (response.statusCode !== 200) {
+				const retryable = response.statusCode === 408 || response.statusCode === 429 || response.statusCode >= 500;
+				throw new DownloadError(`Failed to download image: ${response.statusCode}`, retryable);
+			}
+
+			const finalOutputPath = outputPath + sniffImageType(response.body);
+			writeFileAtomic(finalOutputPath, response.body);
+			return finalOutputPath;
+		} catch (error) {
+			if (!error.retryable || attempt >= retries) throw error;
+
+			const delay = retryDelay * 2 ** attempt;
+			console.warn(`⚠ Downloading ${fileId} failed (${error.message}), retrying in ${delay} ms`);
+			await wait(delay);
+		}
+	}
+}
+
+/**
+ * Published Google Sheets, with images from Google Drive
+ * @param {{ spreadsheetId: string, sheets: Record<string, string>, downloadUrl?: string }} options
+ */
+function createGoogleSheetsSource({ spreadsheetId, sheets, downloadUrl = DRIVE_DOWNLOAD_URL }) {
+	if (!spreadsheetId || typeof spreadsheetId !== "string") {
+		throw new Error("Invalid or missing spreadsheet_id in configuration");
+	}
+
+	return {
+		name: "Google Sheets",
+
+		async fetchSheets(sheetNames) {
+			const results = await Promise.all(
+				sheetNames.map(async sheetName => {
+					const gid = sheets[sheetName];
+					if (gid === undefined) {
+						throw new Error(`No gid configured for sheet "${sheetName}"`);
+					}
+					const csvData = await fetchCsv(buildCsvUrl(spreadsheetId, gid));
+					return [sheetName, await parseCsv(csvData)];
+				})
+			);
+			return Object.fromEntries(results);
+		},
+
+		fetchImage(imageId, outputPath) {
+			return downloadImage(imageId, outputPath, downloadUrl);
+		}
+	};
+}
+
+/**
+ * Copy an image named after its ID (any extension) from a local folder
+ * @param {string | undefined} imagesDir - Folder with files like "<imageId>.png"
+ */
+function copyLocalImage(imagesDir, imageId, outputPath) {
+	if (!imageId) return Promise.resolve(null);
+	if (!imagesDir) {
+		return Promise.reject(new Error(`No images folder given, cannot provide image ${imageId}`));
+	}
+
+	const fileName = fs.readdirSync(imagesDir).find(name => name.replace(/\.[^.]+$/, "") === imageId);
+	if (!fileName) {
+		return Promise.reject(new Error(`Image ${imageId} not found in ${imagesDir}`));
+	}
+
+	const finalOutputPath = outputPath + path.extname(fileName).toLowerCase();
+	fs.copyFileSync(path.join(imagesDir, fileName), finalOutputPath);
+	return Promise.resolve(finalOutputPath);
+}
+
+/**
+ * A directory with one "<sheetName>.csv" file per sheet, e.g. items.csv and sponsorship_plans.csv
+ * @param {{ dir: string, imagesDir?: string }} options
+ */
+function createCsvDirectorySource({ dir, imagesDir }) {
+	if (!dir || !fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+		throw new Error(`CSV directory not found: ${dir}`);
+	}
+
+	return {
+		name: `CSV directory ${dir}`,
+
+		async fetchSheets(sheetNames) {
+			const sheets = {};
+			for (const sheetName of sheetNames) {
+				const filePath = path.join(dir, `${sheetName}.csv`);
+				if (!fs.existsSync(filePath)) {
+					throw new Error(`Missing ${sheetName}.csv in ${dir}`);
+				}
+				sheets[sheetName] = await parseCsv(fs.readFileSync(filePath, "utf8"));
+			}
+			return sheets;
+		},
+
+		fetchImage(imageId, outputPath) {
+			return copyLocalImage(imagesDir, imageId, outputPath);
+		}
+	};
+}
+
+function toCsvField(value) {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * A single exported XLSX workbook with one worksheet per sheet, named like the keys in sheet.json
+ * @param {{ file: string, imagesDir?: string }} options
+ */
+function createXlsxSource({ file, imagesDir }) {
+	if (!file || !fs.existsSync(file)) {
+		throw new Error(`XLSX workbook not found: ${file}`);
+	}
+
+	return {
+		name: `XLSX workbook ${file}`,
+
+		async fetchSheets(sheetNames) {
+			const { default: ExcelJS } = await import("exceljs");
+			const workbook = new ExcelJS.Workbook();
+			await workbook.xlsx.readFile(file);
+
+			const sheets = {};
+			for (const sheetName of sheetNames) {
+				const worksheet = workbook.getWorksheet(sheetName);
+				if (!worksheet) {
+					throw new Error(`Missing worksheet "${sheetName}" in ${file}`);
+				}
+
+				// Use the formatted cell text (e.g. "$40,000") like the published CSV does, trimmed like
+				// parseCsv trims, and run it through the same CSV parser so both sources behave identically
+				const lines = [];
+				worksheet.eachRow({ includeEmpty: true }, row => {
+					const fields = [];
+					for (let column = 1; column <= worksheet.columnCount; column++) {
+						fields.push(toCsvField((row.getCell(column).text ?? "").trim()));
+					}
+					lines.push(fields.join(","));
+				});
+				sheets[sheetName] = await parseCsv(lines.join("\n"));
+			}
+			return sheets;
+		},
+
+		fetchImage(imageId, outputPath) {
+			return copyLocalImage(imagesDir, imageId, outputPath);
+		}
+	};
+}
+
+/**
+ * Create the data source selected on the command line
+ * @param {{ source?: string, path?: string, images?: string }} options - Parsed CLI options
+ * @param {{ spreadsheet_id: string, sheets: Record<string, string> }} sheetConfig - Contents of sheet.json
+ */
+function createSource(options, sheetConfig) {
+	const sourceType = options.source || "sheets";
+
+	switch (sourceType) {
+		case "sheets":
+			return createGoogleSheetsSource({ spreadsheetId: sheetConfig.spreadsheet_id, sheets: sheetConfig.sheets });
+		case "csv":
+			return createCsvDirectorySource({ dir: options.path, imagesDir: options.images });
+		case "xlsx":
+			return createXlsxSource({ file: options.path, imagesDir: options.images });
+		default:
+			throw new Error(`Unknown source "${sourceType}", expected one of: sheets, csv, xlsx`);
+	}
+}
+
+export { parseCsv, downloadImage, sniffImageType, writeFileAtomic, DownloadError, DRIVE_DOWNLOAD_URL, createGoogleSheetsSource, createCsvDirectorySource, createXlsxSource, createSource };
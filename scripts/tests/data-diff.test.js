@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { buildChangeReport, classifyField, diffItems, diffPlans, formatChangeReportMarkdown } from "../data-diff.js";
+
+const ITEMS = JSON.parse(fs.readFileSync(new URL("./fixtures/expected/item.json", import.meta.url), "utf8"));
+const PLANS = JSON.parse(fs.readFileSync(new URL("./fixtures/expected/plan.json", import.meta.url), "utf8"));
+
+function clone(value) {
+	return JSON.parse(JSON.stringify(value));
+}
+
+describe("classifyField", () => {
+	it("groups fields by the kind of change", () => {
+		assert.deepEqual(classifyField("price"), { kind: "price" });
+		assert.deepEqual(classifyField("remaining"), { kind: "stock" });
+		assert.deepEqual(classifyField("deadline"), { kind: "deadline" });
+		assert.deepEqual(classifyField("start_time"), { kind: "opening" });
+		assert.deepEqual(classifyField("brand_exposure_en"), { kind: "text", locale: "en" });
+		assert.deepEqual(classifyField("name_zh"), { kind: "text", locale: "zh" });
+		assert.deepEqual(classifyField("order"), { kind: "other" });
+	});
+});
+
+describe("diffItems", () => {
+	it("reports nothing for identical data", () => {
+		assert.deepEqual(diffItems(ITEMS, clone(ITEMS)), { added: [], removed: [], changed: [], risks: [] });
+	});
+
+	it("lists added and removed items, flagging removals", () => {
+		const next = clone(ITEMS);
+		delete next["2"];
+		next["99"] = { ...clone(ITEMS["1"]), name_zh: "新項目" };
+
+		const diff = diffItems(ITEMS, next);
+
+		assert.deepEqual(diff.added, [{ id: "99", name: "新項目" }]);
+		assert.deepEqual(diff.removed, [{ id: "2", name: ITEMS["2"].name_zh }]);
+		assert.deepEqual(
+			diff.risks.map(risk => [risk.id, risk.type]),
+			[["2", "removed"]]
+		);
+	});
+
+	it("reports price, stock, deadline and per-locale text changes", () => {
+		const next = clone(ITEMS);
+		next["2"].price = "$9,000";
+		next["2"].deadline = "2026/03/01";
+		next["2"].name_en = "Paper Placemat";
+		next["2"].remaining = "5";
+
+		const [entry] = diffItems(ITEMS, next).changed;
+
+		assert.equal(entry.id, "2");
+		assert.deepEqual(entry.changes.map(change => [change.field, change.kind, change.locale]).sort(), [
+			["deadline", "deadline", undefined],
+			["name_en", "text", "en"],
+			["price", "price", undefined],
+			["remaining", "stock", undefined]
+		]);
+		assert.deepEqual(
+			entry.changes.find(change => change.field === "price"),
+			{ field: "price", kind: "price", from: ITEMS["2"].price, to: "$9,000" }
+		);
+	});
+
+	it("flags a blanked price and a restock after selling out", () => {
+		const previous = clone(ITEMS);
+		previous["1"].sub[0].remaining = "0";
+		const next = clone(previous);
+		next["2"].price = "";
+		next["1"].sub[0].remaining = "2";
+
+		const { risks } = diffItems(previous, next);
+
+		assert.deepEqual(
+			risks.map(risk => [risk.id, risk.field, risk.type]),
+			[
+				["1", "sub[0].remaining", "restocked"],
+				["2", "price", "price-blanked"]
+			]
+		);
+	});
+
+	it("compares sub-items by position", () => {
+		const next = clone(ITEMS);
+		next["1"].sub[1].name_zh = "改名";
+		next["1"].sub.push({ ...clone(ITEMS["1"].sub[0]), name_zh: "新增子項目" });
+
+		const [entry] = diffItems(ITEMS, next).changed;
+		const lastIndex = ITEMS["1"].sub.length;
+
+		assert.deepEqual(
+			entry.changes.map(change => [change.field, change.kind, change.to]),
+			[
+				["sub[1].name_zh", "text", "改名"],
+				[`sub[${lastIndex}]`, "added", "新增子項目"]
+			]
+		);
+	});
+});
+
+describe("diffPlans", () => {
+	it("reports price and benefit changes", () => {
+		const next = clone(PLANS);
+		const planId = Object.keys(PLANS)[0];
+		next[planId].price = "NT$1";
+		next[planId].benefits[0].quantity = "99";
+
+		const [entry] = diffPlans(PLANS, next).changed;
+
+		assert.equal(entry.id, planId);
+		assert.deepEqual(
+			entry.changes.map(change => [change.field, change.kind, change.to]),
+			[
+				["price", "price", "NT$1"],
+				[`benefits[${PLANS[planId].benefits[0].item_name}]`, "benefit", "99"]
+			]
+		);
+	});
+});
+
+describe("buildChangeReport", () => {
+	it("collects item and plan risks and renders them in Markdown", () => {
+		const next = { items: clone(ITEMS), plans: clone(PLANS) };
+		next.items["2"].price = "";
+
+		const report = buildChangeReport({ items: ITEMS, plans: PLANS }, next);
+		const markdown = formatChangeReportMarkdown(report);
+
+		assert.equal(report.hasChanges, true);
+		assert.equal(report.risks.length, 1);
+		assert.match(markdown, /\[!WARNING\]\n> 1 change\(s\) need review/);
+		assert.match(markdown, /\| Price \| `price` \| `\$\d[\d,]*` \| \(empty\) \|/);
+		assert.match(markdown, /## Plans\n\nNo changes\./);
+	});
+
+	it("says so when nothing changed", () => {
+		const report = buildChangeReport({ items: ITEMS, plans: PLANS }, { items: clone(ITEMS), plans: clone(PLANS) });
+
+		assert.equal(report.hasChanges, false);
+		assert.match(formatChangeReportMarkdown(report), /No changes to item\.json or plan\.json\./);
+	});
+});
@@ -0,0 +1,536 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import {
+	parseCsv,
+	readColumn,
+	checkSheetColumns,
+	extractSubItems,
+	findSubItemIdChanges,
+	writeSubItemIdChanges,
+	mergeSheetData,
+	buildAvailability,
+	processPlanData,
+	downloadImage,
+	downloadAllImages,
+	pruneUnusedImages
+} from "../fetch-and-merge.js";
+
+const FIXTURES_DIR = new URL("./fixtures/", import.meta.url).pathname;
+const SHEET_NAMES = Object.keys(JSON.parse(fs.readFileSync(new URL("../sheet.json", import.meta.url), "utf8")).sheets);
+const SHEET_MAPPING = JSON.parse(fs.readFileSync(new URL("../sheet-mapping.json", import.meta.url), "utf8"));
+
+// Run with UPDATE_FIXTURES=1 to rewrite the golden files after an intended change
+function assertMatchesGolden(actual, relativePath) {
+	const goldenPath = path.join(FIXTURES_DIR, relativePath);
+	if (process.env.UPDATE_FIXTURES) {
+		fs.writeFileSync(goldenPath, JSON.stringify(actual, null, 2), "utf8");
+	}
+	assert.deepEqual(actual, JSON.parse(fs.readFileSync(goldenPath, "utf8")));
+}
+
+// Parse every recorded sheet CSV the same way fetchAllSheets does
+async function loadFixtureSheets() {
+	const sheets = {};
+	for (const sheetName of SHEET_NAMES) {
+		const csvData = fs.readFileSync(path.join(FIXTURES_DIR, "sheets", `${sheetName}.csv`), "utf8");
+		sheets[sheetName] = await parseCsv(csvData);
+	}
+	return sheets;
+}
+
+describe("sheet fixtures", () => {
+	let sheets;
+
+	before(async () => {
+		sheets = await loadFixtureSheets();
+	});
+
+	it("has a recorded CSV for every sheet in sheet.json", () => {
+		assert.deepEqual(Object.keys(sheets).sort(), [...SHEET_NAMES].sort());
+		for (const sheetName of SHEET_NAMES) {
+			assert.ok(sheets[sheetName].length > 0, `${sheetName}.csv has no records`);
+		}
+	});
+
+	it("merges the sheets into the expected item.json", () => {
+		assertMatchesGolden(mergeSheetData(sheets), "expected/item.json");
+	});
+
+	it("processes the plan sheet into the expected plan.json", () => {
+		const items = mergeSheetData(sheets);
+		assertMatchesGolden(processPlanData(sheets.sponsorship_plans, items), "expected/plan.json");
+	});
+
+	it("fails when the items sheet is missing", () => {
+		assert.throws(() => mergeSheetData({ ...sheets, items: [] }), /Items sheet is empty/);
+	});
+});
+
+describe("sheet mapping", () => {
+	let sheets;
+
+	before(async () => {
+		sheets = await loadFixtureSheets();
+	});
+
+	// Rename a header in every row, like a column renamed in next year's sheet
+	function renameColumn(rows, from, to) {
+		return rows.map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [key === from ? to : key, value])));
+	}
+
+	it("reads the first non-empty alias", () => {
+		assert.equal(readColumn({ 項目: "", 項目名稱: "明信片" }, ["項目", "項目名稱"]), "明信片");
+		assert.equal(readColumn({ 子項目2價錢: "$100" }, ["子項目{n}價錢"], 2), "$100");
+		assert.equal(readColumn(undefined, ["項目"]), "");
+	});
+
+	it("finds no unknown or missing columns in the recorded sheets", () => {
+		assert.deepEqual(checkSheetColumns(sheets), {});
+	});
+
+	it("reports unknown and missing columns", () => {
+		const changed = {
+			...sheets,
+			items: renameColumn(sheets.items, "截止時間", "截止日期"),
+			sponsorship_plans: renameColumn(sheets.sponsorship_plans, "新芽級", "種子級")
+		};
+
+		assert.deepEqual(checkSheetColumns(changed), {
+			items: { unknown: ["截止日期"], missing: ['deadline ("截止時間")'] },
+			sponsorship_plans: { unknown: ["種子級"], missing: [] }
+		});
+	});
+
+	it("only needs a mapping change when headers are renamed", () => {
+		const mapping = structuredClone(SHEET_MAPPING);
+		mapping.items.columns.deadline = ["截止日期"];
+		mapping.plans.tiers.種子級 = mapping.plans.tiers.新芽級;
+		delete mapping.plans.tiers.新芽級;
+
+		const renamed = {
+			...sheets,
+			items: renameColumn(sheets.items, "截止時間", "截止日期"),
+			sponsorship_plans: renameColumn(sheets.sponsorship_plans, "新芽級", "種子級")
+		};
+		const items = mergeSheetData(renamed, mapping);
+		const plans = processPlanData(renamed.sponsorship_plans, items, mapping.plans);
+
+		assert.deepEqual(items, mergeSheetData(sheets));
+		assert.equal(plans.new_sprout.name_zh, "種子級");
+		assert.deepEqual(plans.new_sprout.benefits, processPlanData(sheets.sponsorship_plans, items).new_sprout.benefits);
+		assert.deepEqual(checkSheetColumns(renamed, mapping), {});
+	});
+
+	it("reads the columns of an added locale into suffixed fields", () => {
+		const mapping = structuredClone(SHEET_MAPPING);
+		mapping.locales.push("ja");
+		// Reuse the English columns as stand-ins for Japanese ones
+		mapping.items.columns.name_ja = mapping.items.columns.name_en;
+		mapping.items.sub_items.columns.name_ja = mapping.items.sub_items.columns.name_en;
+		mapping.descriptions.columns.ja = mapping.descriptions.columns.en;
+		mapping.plans.tiers.領航級.name_ja = "ナビゲーター";
+
+		const items = mergeSheetData(sheets, mapping);
+		const plans = processPlanData(sheets.sponsorship_plans, items, mapping.plans, mapping.locales);
+		const [id, item] = Object.entries(items).find(([, entry]) => entry.sub.length > 0);
+
+		assert.equal(item.name_ja, item.name_en);
+		assert.equal(item.global_description_ja, item.global_description_en);
+		assert.equal(item.image_description_ja, "");
+		assert.equal(item.sub[0].name_ja, item.sub[0].name_en);
+		// Apart from the added fields, nothing changes
+		const withoutJapanese = value => JSON.parse(JSON.stringify(value, (key, field) => (key.endsWith("_ja") ? undefined : field)));
+		assert.deepEqual(withoutJapanese(items), mergeSheetData(sheets));
+		assert.equal(plans.navigator.name_ja, "ナビゲーター");
+		assert.equal(plans.visionary.name_ja, "前瞻級");
+		assert.equal(plans.navigator.display.badge_ja, "");
+	});
+
+	it("reads placement zones as a list", () => {
+		const [first, ...rest] = sheets.items;
+		const items = mergeSheetData({ ...sheets, items: [{ ...first, 擺放位置: "Lobby, booths、lobby" }, ...rest.map(row => ({ ...row, 擺放位置: "" }))] });
+		const id = readColumn(first, SHEET_MAPPING.items.id);
+
+		assert.deepEqual(items[id].placement, ["lobby", "booths"]);
+		assert.ok(Object.entries(items).every(([itemId, item]) => itemId === id || item.placement.length === 0));
+	});
+
+	it("reads tier slot rows into the display metadata instead of benefits", () => {
+		const items = mergeSheetData(sheets);
+		const slotRows = [
+			{ "": "限量名額", 編號: "", 領航級: "2", 深耕級: "4", 前瞻級: "", 新芽級: "" },
+			{ "": "剩餘名額", 編號: "", 領航級: "0", 深耕級: "3", 前瞻級: "", 新芽級: "" }
+		];
+		const withSlots = [sheets.sponsorship_plans[0], ...slotRows, ...sheets.sponsorship_plans.slice(1)];
+		const plans = processPlanData(withSlots, items);
+		const original = processPlanData(sheets.sponsorship_plans, items);
+
+		assert.deepEqual(plans.navigator.display, { ...original.navigator.display, limit: 2, remaining: 0 });
+		assert.deepEqual(plans.deep_cultivation.display, { ...original.deep_cultivation.display, limit: 4, remaining: 3 });
+		assert.equal(plans.visionary.display.limit, null);
+		assert.equal(plans.navigator.display.color, SHEET_MAPPING.plans.tiers.領航級.color);
+		assert.deepEqual(plans.navigator.benefits, original.navigator.benefits);
+	});
+});
+
+describe("extractSubItems", () => {
+	it("reads numbered sub-item columns until the first gap", () => {
+		const row = {
+			子項目1: "午餐旗",
+			"sub projects 1": "Lunch Flag",
+			子項目1價錢: "$40,000",
+			子項目1剩餘數量: "1",
+			子項目1圖片連結: "https://drive.google.com/file/d/abc_123/view?usp=drive_link",
+			"子項目1圖片 敘述": "午餐旗",
+			"子項目1圖片 description": "Lunch Flag",
+			子項目3: "不會被讀到"
+		};
+
+		assert.deepEqual(extractSubItems(row), [
+			{
+				id: "6291e783",
+				name_zh: "午餐旗",
+				name_en: "Lunch Flag",
+				price: "$40,000",
+				remaining: "1",
+				image: "abc_123",
+				image_meta: null,
+				image_description_zh: "午餐旗",
+				image_description_en: "Lunch Flag",
+				start_time: ""
+			}
+		]);
+	});
+
+	it("uses the file name as image ID when the sheet references a local file", () => {
+		const row = { 子項目1: "午餐旗", 子項目1圖片連結: "lunch-flag.png" };
+
+		assert.equal(extractSubItems(row)[0].image, "lunch-flag");
+	});
+
+	it("keeps sub-item IDs when rows are reordered or inserted", () => {
+		const original = extractSubItems({ 子項目1: "午餐旗", 子項目2: "點心旗" });
+		const reordered = extractSubItems({ 子項目1: "早餐旗", 子項目2: "點心旗", 子項目3: "午餐旗" });
+
+		assert.equal(reordered[1].id, original[1].id);
+		assert.equal(reordered[2].id, original[0].id);
+		assert.notEqual(reordered[0].id, original[0].id);
+	});
+
+	it("prefers the sub-item ID column and keeps IDs unique within an item", () => {
+		const row = { 子項目1: "午餐旗", 子項目1編號: "Lunch", 子項目2: "點心旗", 子項目2編號: "lunch", 子項目3: "晚餐旗", 子項目3編號: "晚餐" };
+		const ids = extractSubItems(row).map(subItem => subItem.id);
+
+		assert.deepEqual(ids.slice(0, 2), ["lunch", "lunch-2"]);
+		// IDs that cannot appear in a share link are replaced by a generated one
+		assert.match(ids[2], /^[0-9a-f]{8}$/);
+	});
+
+	it("returns an empty list for items without sub-items", () => {
+		assert.deepEqual(extractSubItems({ 編號: "2", 項目: "一次性紙餐墊" }), []);
+	});
+
+	it("keeps the previous ID of a renamed sub-item", () => {
+		const previous = extractSubItems({ 子項目1: "午餐旗", 子項目2: "點心旗" });
+		const renamed = extractSubItems({ 子項目1: "午餐旗幟", 子項目2: "點心旗" }, SHEET_MAPPING.items.sub_items, SHEET_MAPPING.locales, previous);
+
+		assert.deepEqual(
+			renamed.map(subItem => subItem.id),
+			previous.map(subItem => subItem.id)
+		);
+	});
+
+	it("keeps previous IDs when rows are reordered, and only takes a position's ID when its name is gone", () => {
+		const previous = extractSubItems({ 子項目1: "午餐旗", 子項目2: "點心旗" });
+		const reordered = extractSubItems({ 子項目1: "點心旗", 子項目2: "早餐旗", 子項目3: "午餐旗" }, SHEET_MAPPING.items.sub_items, SHEET_MAPPING.locales, previous);
+
+		assert.equal(reordered[0].id, previous[1].id);
+		assert.equal(reordered[2].id, previous[0].id);
+		assert.ok(!previous.some(subItem => subItem.id === reordered[1].id));
+	});
+});
+
+describe("sub-item ID changes", () => {
+	const previousItems = {
+		1: {
+			sub: [
+				{ id: "6291e783", name_zh: "午餐旗" },
+				{ id: "a74db0d5", name_zh: "點心旗" }
+			]
+		}
+	};
+
+	it("maps the cart IDs of sub-items whose ID changed", () => {
+		const items = {
+			1: {
+				sub: [
+					{ id: "lunch", name_zh: "午餐旗" },
+					{ id: "a74db0d5", name_zh: "點心旗" }
+				]
+			},
+			2: { sub: [] }
+		};
+
+		assert.deepEqual(findSubItemIdChanges(previousItems, items, "name_zh"), { "1-sub-6291e783": "1-sub-lunch" });
+	});
+
+	it("does not map removed or unchanged sub-items", () => {
+		const items = { 1: { sub: [{ id: "a74db0d5", name_zh: "點心旗" }] } };
+
+		assert.deepEqual(findSubItemIdChanges(previousItems, items, "name_zh"), {});
+	});
+
+	it("adds changes to the legacy ID map and updates entries pointing at changed IDs", t => {
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "legacy-ids-"));
+		t.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+		t.mock.method(console, "log", () => {});
+		const legacyPath = path.join(tmpDir, "legacy-sub-item-ids.json");
+		fs.writeFileSync(legacyPath, JSON.stringify({ "1-sub-0": "1-sub-6291e783", "1-sub-1": "1-sub-a74db0d5" }));
+
+		writeSubItemIdChanges({ "1-sub-6291e783": "1-sub-lunch" }, legacyPath);
+
+		assert.deepEqual(JSON.parse(fs.readFileSync(legacyPath, "utf8")), {
+			"1-sub-0": "1-sub-lunch",
+			"1-sub-1": "1-sub-a74db0d5",
+			"1-sub-6291e783": "1-sub-lunch"
+		});
+	});
+});
+
+describe("buildAvailability", () => {
+	const items = {
+		1: { remaining: "", deadline: "2026/03/01", start_time: "", name_zh: "午餐旗", sub: [{ id: "lunch", remaining: "1", start_time: "", name_zh: "午餐旗" }] },
+		2: { remaining: "3", deadline: "", start_time: "2026/01/05", name_zh: "攤位", sub: [] }
+	};
+
+	it("keeps only stock and sale times of every item and sub-item", () => {
+		const { items: availability } = buildAvailability(items);
+
+		assert.deepEqual(Object.keys(availability), ["1", "2"]);
+		assert.deepEqual(availability[2], { remaining: "3", deadline: "", start_time: "2026/01/05", version: availability[2].version, sub: [] });
+		assert.deepEqual(availability[1].sub, [{ id: "lunch", remaining: "1", start_time: "", version: availability[1].sub[0].version }]);
+	});
+
+	it("changes the versions only when stock or sale times change", () => {
+		const before = buildAvailability(items);
+		const renamed = buildAvailability({ ...items, 2: { ...items[2], name_zh: "大攤位" } });
+		const soldOut = buildAvailability({ ...items, 1: { ...items[1], sub: [{ ...items[1].sub[0], remaining: "0" }] } });
+
+		assert.deepEqual(renamed, before);
+		assert.notEqual(soldOut.items[1].sub[0].version, before.items[1].sub[0].version);
+		// A sub-item changing also changes its item and the whole file
+		assert.notEqual(soldOut.items[1].version, before.items[1].version);
+		assert.equal(soldOut.items[2].version, before.items[2].version);
+		assert.notEqual(soldOut.version, before.version);
+	});
+});
+
+describe("Drive image download", () => {
+	let server;
+	let downloadUrl;
+	let tmpDir;
+	let png;
+	let changingImage;
+	const requests = [];
+	const options = { retries: 2, retryDelay: 1 };
+
+	before(async () => {
+		// The download progress log, written while sharp works, can garble the test runner's messages
+		mock.method(console, "log", () => {});
+		mock.method(console, "warn", () => {});
+
+		png = await sharp({ create: { width: 1600, height: 900, channels: 3, background: "#77b55a" } })
+			.png()
+			.toBuffer();
+		changingImage = png;
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "cfs-images-"));
+
+		// Stand-in for drive.google.com: /uc redirects twice before serving the file
+		server = http.createServer((req, res) => {
+			const url = new URL(req.url, "http://localhost");
+			requests.push(`${url.pathname}?${url.searchParams.get("id")}`);
+			const id = url.searchParams.get("id");
+			const origin = `http://localhost:${server.address().port}`;
+
+			if (url.pathname === "/uc" && id === "missing") {
+				res.writeHead(404).end();
+			} else if (url.pathname === "/uc" && id === "flaky" && requests.filter(request => request === "/uc?flaky").length === 1) {
+				res.writeHead(503).end();
+			} else if (url.pathname === "/uc" && id === "html") {
+				res.writeHead(200, { "content-type": "text/html" }).end("<!DOCTYPE html><html><body>Google Drive - Virus scan warning</body></html>");
+			} else if (url.pathname === "/uc" && id === "loop") {
+				res.writeHead(302, { location: `/uc?id=${id}` }).end();
+			} else if (url.pathname === "/uc") {
+				res.writeHead(303, { location: `${origin}/redirect?id=${id}` }).end();
+			} else if (url.pathname === "/redirect") {
+				res.writeHead(302, { location: `/file?id=${id}` }).end();
+			} else if (url.pathname === "/file") {
+				res.writeHead(200, { "content-type": "application/octet-stream" }).end(id === "changing" ? changingImage : png);
+			} else {
+				res.writeHead(404).end();
+			}
+		});
+		await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+		downloadUrl = `http://localhost:${server.address().port}/uc`;
+	});
+
+	after(() => {
+		mock.restoreAll();
+		server.close();
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	const fetchImage = (imageId, outputPath) => downloadImage(imageId, outputPath, downloadUrl, options);
+
+	it("follows redirects and names the file after its actual format", async () => {
+		const filePath = await downloadImage("direct", path.join(tmpDir, "direct"), downloadUrl, options);
+
+		assert.equal(filePath, path.join(tmpDir, "direct.png"));
+		assert.deepEqual(fs.readFileSync(filePath), png);
+	});
+
+	it("rejects when Drive responds with an error status", async () => {
+		requests.length = 0;
+		await assert.rejects(downloadImage("missing", path.join(tmpDir, "missing"), downloadUrl, options), /Failed to download image: 404/);
+		assert.equal(requests.length, 1);
+	});
+
+	it("retries server errors", async () => {
+		requests.length = 0;
+		const filePath = await downloadImage("flaky", path.join(tmpDir, "flaky"), downloadUrl, options);
+
+		assert.equal(filePath, path.join(tmpDir, "flaky.png"));
+		assert.equal(requests.filter(request => request === "/uc?flaky").length, 2);
+	});
+
+	it("rejects HTML pages and redirect loops without writing a file", async () => {
+		await assert.rejects(downloadImage("html", path.join(tmpDir, "html"), downloadUrl, options), /HTML page instead of an image/);
+		await assert.rejects(downloadImage("loop", path.join(tmpDir, "loop"), downloadUrl, options), /Too many redirects/);
+		assert.deepEqual(
+			fs.readdirSync(tmpDir).filter(fileName => /^(html|loop)/.test(fileName)),
+			[]
+		);
+	});
+
+	it("resolves null without an image ID", async () => {
+		assert.equal(await downloadImage("", path.join(tmpDir, "none"), downloadUrl), null);
+	});
+
+	it("writes WebP and AVIF variants, keeps existing images that fail to download and records their metadata", async () => {
+		const imagesDir = path.join(tmpDir, "items");
+		const manifestPath = path.join(tmpDir, "items-manifest.json");
+		fs.mkdirSync(imagesDir);
+		// Downloaded before variants existed, and since removed from Drive: only the full-size WebP
+		await sharp(png).resize({ width: 600 }).webp().toFile(path.join(imagesDir, "missing.webp"));
+
+		const itemsData = {
+			1: {
+				image: "fresh",
+				image_meta: null,
+				sub: [
+					{ image: "missing.webp", image_meta: null },
+					{ image: "", image_meta: null }
+				]
+			}
+		};
+
+		await downloadAllImages(itemsData, { imagesDir, manifestPath, fetchImage });
+
+		assert.deepEqual(fs.readdirSync(imagesDir).sort(), [
+			"fresh-360.avif",
+			"fresh-360.webp",
+			"fresh-720.avif",
+			"fresh-720.webp",
+			"fresh.avif",
+			"fresh.webp",
+			"missing-360.avif",
+			"missing-360.webp",
+			"missing.avif",
+			"missing.webp"
+		]);
+
+		const [fresh, missing] = [itemsData[1], itemsData[1].sub[0]];
+		assert.equal(fresh.image, "fresh.webp");
+		assert.deepEqual({ ...fresh.image_meta, placeholder: undefined }, { width: 1080, height: 608, widths: [360, 720, 1080], placeholder: undefined });
+		assert.match(fresh.image_meta.placeholder, /^data:image\/webp;base64,/);
+		assert.equal(missing.image, "missing.webp");
+		assert.deepEqual(missing.image_meta.widths, [360, 600]);
+		assert.deepEqual(itemsData[1].sub[1], { image: "", image_meta: null });
+
+		const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+		assert.deepEqual(manifest.fresh, { sha256: crypto.createHash("sha256").update(png).digest("hex"), image_meta: fresh.image_meta });
+		assert.deepEqual(manifest.missing, { sha256: null, image_meta: missing.image_meta });
+
+		const metadata = await sharp(path.join(imagesDir, "fresh-360.avif")).metadata();
+		assert.equal(metadata.format, "heif");
+		assert.equal(metadata.width, 360);
+	});
+
+	it("regenerates variants only when the image changed under the same ID or its files are broken", async () => {
+		const imagesDir = path.join(tmpDir, "changing");
+		const manifestPath = path.join(tmpDir, "changing-manifest.json");
+		const avifPath = path.join(imagesDir, "changing-360.avif");
+		const run = async () => {
+			const itemsData = { 1: { image: "changing", image_meta: null, sub: [] } };
+			await downloadAllImages(itemsData, { imagesDir, manifestPath, fetchImage });
+			return itemsData[1].image_meta;
+		};
+
+		const first = await run();
+		const { mtimeMs } = fs.statSync(avifPath);
+
+		assert.deepEqual(await run(), first);
+		assert.equal(fs.statSync(avifPath).mtimeMs, mtimeMs);
+
+		changingImage = await sharp({ create: { width: 800, height: 800, channels: 3, background: "#ffffff" } })
+			.png()
+			.toBuffer();
+		const changed = await run();
+		assert.deepEqual([changed.width, changed.height, changed.widths], [800, 800, [360, 720, 800]]);
+		assert.equal(fs.existsSync(path.join(imagesDir, "changing-1080.webp")), false);
+
+		fs.writeFileSync(avifPath, "broken");
+		assert.deepEqual(await run(), changed);
+		assert.equal((await sharp(avifPath).metadata()).width, 360);
+	});
+
+	it("downloads a few images at a time", async () => {
+		const imagesDir = path.join(tmpDir, "concurrency");
+		const itemsData = Object.fromEntries(Array.from({ length: 6 }, (_, index) => [index, { image: "", image_meta: null, sub: [{ image: `image-${index}`, image_meta: null }] }]));
+		let active = 0;
+		let maxActive = 0;
+
+		await downloadAllImages(itemsData, {
+			imagesDir,
+			manifestPath: path.join(tmpDir, "concurrency-manifest.json"),
+			concurrency: 2,
+			fetchImage: async () => {
+				maxActive = Math.max(maxActive, ++active);
+				await new Promise(resolve => setTimeout(resolve, 5));
+				active--;
+				throw new Error("offline");
+			}
+		});
+
+		assert.equal(maxActive, 2);
+		assert.deepEqual(fs.readdirSync(imagesDir), []);
+	});
+
+	it("deletes the files of images no item uses any more", () => {
+		const imagesDir = path.join(tmpDir, "prune");
+		fs.mkdirSync(imagesDir);
+		const files = ["kept.webp", "kept-360.avif", "ends-360.webp", "gone.webp", "gone-720.avif", "kept.download.png"];
+		files.forEach(fileName => fs.writeFileSync(path.join(imagesDir, fileName), ""));
+
+		const removed = pruneUnusedImages(imagesDir, new Set(["kept", "ends-360"]));
+
+		assert.deepEqual(removed.sort(), ["gone-720.avif", "gone.webp", "kept.download.png"]);
+		assert.deepEqual(fs.readdirSync(imagesDir).sort(), ["ends-360.webp", "kept-360.avif", "kept.webp"]);
+	});
+});
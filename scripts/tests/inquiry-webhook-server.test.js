@@ -0,0 +1,83 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createInquiryServer, validatePayload } from "../inquiry-webhook-server.js";
+
+const PAYLOAD = {
+	version: 2,
+	submitted_at: "2026-01-15T02:00:00.000Z",
+	lang: "zh-Hant",
+	sponsor: { organization: "SITCON", department: "", name: "小明", contact: "contact@sitcon.org" },
+	message: "想了解攤位",
+	cart: [{ id: "1-sub-6291e783", kind: "sub_item", item_id: "1", sub_item_id: "6291e783", title: "午餐旗", quantity: 2, price: "$40,000" }],
+	cart_state: "1-sub-6291e783*2"
+};
+
+async function startServer(options) {
+	const server = createInquiryServer(options);
+	await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+	return { server, url: `http://127.0.0.1:${server.address().port}/` };
+}
+
+function post(url, body) {
+	return fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: typeof body === "string" ? body : JSON.stringify(body) });
+}
+
+describe("validatePayload", () => {
+	it("accepts an inquiry payload", () => {
+		assert.deepEqual(validatePayload(PAYLOAD), []);
+	});
+
+	it("lists every missing part", () => {
+		assert.deepEqual(validatePayload({ version: 1 }), ["unsupported version 1", "missing sponsor", "missing message", "missing cart"]);
+	});
+});
+
+describe("inquiry webhook server", () => {
+	let tmpDir;
+	let server;
+	let url;
+
+	before(async () => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "inquiries-"));
+		({ server, url } = await startServer({ out: path.join(tmpDir, "inquiries.jsonl") }));
+	});
+
+	after(() => {
+		server.close();
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("answers CORS preflight requests", async () => {
+		const response = await fetch(url, { method: "OPTIONS" });
+		assert.equal(response.status, 204);
+		assert.equal(response.headers.get("access-control-allow-origin"), "*");
+	});
+
+	it("records valid inquiries", async () => {
+		const response = await post(url, PAYLOAD);
+		assert.equal(response.status, 201);
+
+		const lines = fs.readFileSync(path.join(tmpDir, "inquiries.jsonl"), "utf8").trim().split("\n");
+		assert.deepEqual(JSON.parse(lines.at(-1)), PAYLOAD);
+	});
+
+	it("rejects malformed bodies", async () => {
+		assert.equal((await post(url, "not json")).status, 400);
+
+		const response = await post(url, { version: 2 });
+		assert.equal(response.status, 422);
+		assert.deepEqual((await response.json()).errors, ["missing sponsor", "missing message", "missing cart"]);
+	});
+
+	it("answers with the status given by --fail", async () => {
+		const failing = await startServer({ fail: "503" });
+		try {
+			assert.equal((await post(failing.url, PAYLOAD)).status, 503);
+		} finally {
+			failing.server.close();
+		}
+	});
+});
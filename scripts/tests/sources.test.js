@@ -0,0 +1,87 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { parse } from "csv-parse";
+import ExcelJS from "exceljs";
+import { createCsvDirectorySource, createSource, createXlsxSource, parseCsv } from "../sources.js";
+
+const SHEETS_DIR = new URL("./fixtures/sheets/", import.meta.url).pathname;
+const SHEET_NAMES = Object.keys(JSON.parse(fs.readFileSync(new URL("../sheet.json", import.meta.url), "utf8")).sheets);
+
+async function readFixtureSheets() {
+	const sheets = {};
+	for (const sheetName of SHEET_NAMES) {
+		sheets[sheetName] = await parseCsv(fs.readFileSync(path.join(SHEETS_DIR, `${sheetName}.csv`), "utf8"));
+	}
+	return sheets;
+}
+
+describe("createSource", () => {
+	it("defaults to the published Google Sheets", () => {
+		const source = createSource({}, { spreadsheet_id: "abc", sheets: { items: "0" } });
+		assert.equal(source.name, "Google Sheets");
+	});
+
+	it("rejects unknown source types", () => {
+		assert.throws(() => createSource({ source: "ods" }, { spreadsheet_id: "abc", sheets: {} }), /Unknown source "ods"/);
+	});
+
+	it("requires an existing path for local sources", () => {
+		assert.throws(() => createSource({ source: "csv", path: "/does/not/exist" }, { sheets: {} }), /CSV directory not found/);
+		assert.throws(() => createSource({ source: "xlsx" }, { sheets: {} }), /XLSX workbook not found/);
+	});
+});
+
+describe("local sources", () => {
+	let tmpDir;
+	let expected;
+
+	before(async () => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "cfs-sources-"));
+		expected = await readFixtureSheets();
+	});
+
+	after(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("reads a directory of CSV exports like the published sheets", async () => {
+		const sheets = await createCsvDirectorySource({ dir: SHEETS_DIR }).fetchSheets(SHEET_NAMES);
+		assert.deepEqual(sheets, expected);
+	});
+
+	it("reports a missing CSV file by sheet name", async () => {
+		await assert.rejects(createCsvDirectorySource({ dir: SHEETS_DIR }).fetchSheets(["items", "venue"]), /Missing venue\.csv/);
+	});
+
+	it("reads an XLSX workbook with one worksheet per sheet", async () => {
+		// Rebuild the recorded CSVs as an .xlsx, the way "Download as Microsoft Excel" exports them
+		const workbook = new ExcelJS.Workbook();
+		for (const sheetName of SHEET_NAMES) {
+			const rows = await new Promise((resolve, reject) => {
+				parse(fs.readFileSync(path.join(SHEETS_DIR, `${sheetName}.csv`), "utf8"), { relax_column_count: true }, (err, records) => (err ? reject(err) : resolve(records)));
+			});
+			workbook.addWorksheet(sheetName).addRows(rows);
+		}
+		const file = path.join(tmpDir, "sheets.xlsx");
+		await workbook.xlsx.writeFile(file);
+
+		const sheets = await createXlsxSource({ file }).fetchSheets(SHEET_NAMES);
+		assert.deepEqual(sheets, expected);
+	});
+
+	it("copies images named after their ID from the images folder", async () => {
+		const imagesDir = path.join(tmpDir, "images");
+		fs.mkdirSync(imagesDir);
+		fs.writeFileSync(path.join(imagesDir, "lunch-flag.PNG"), "png");
+		const source = createCsvDirectorySource({ dir: SHEETS_DIR, imagesDir });
+
+		const filePath = await source.fetchImage("lunch-flag", path.join(tmpDir, "lunch-flag"));
+
+		assert.equal(filePath, path.join(tmpDir, "lunch-flag.png"));
+		assert.equal(fs.readFileSync(filePath, "utf8"), "png");
+		await assert.rejects(source.fetchImage("unknown", path.join(tmpDir, "unknown")), /Image unknown not found/);
+	});
+});
@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { buildCoverageReport, checkItemTranslations, compareMessages, flattenMessages, formatCoverageMarkdown, hasMissingTranslations } from "../translation-coverage.js";
+
+const ITEMS = JSON.parse(fs.readFileSync(new URL("./fixtures/expected/item.json", import.meta.url), "utf8"));
+const ZH = JSON.parse(fs.readFileSync(new URL("../../src/i18n/zh-Hant.json", import.meta.url), "utf8"));
+const EN = JSON.parse(fs.readFileSync(new URL("../../src/i18n/en.json", import.meta.url), "utf8"));
+
+function clone(value) {
+	return JSON.parse(JSON.stringify(value));
+}
+
+describe("compareMessages", () => {
+	it("flattens nested objects and arrays into dotted keys", () => {
+		assert.deepEqual([...flattenMessages({ form: { title: "表單", fields: [{ name: "姓名" }] } }).keys()], ["form.title", "form.fields[0].name"]);
+	});
+
+	it("finds no gaps between the committed i18n files", () => {
+		assert.deepEqual(compareMessages(ZH, EN), { total: flattenMessages(ZH).size - flattenMessages(ZH.locale).size, missing: [], extra: [], empty: [], untranslated: [] });
+	});
+
+	it("reports missing, extra, empty and untranslated keys", () => {
+		const source = { locale: { path: "" }, nav: { title: "贊助", faq: "常見問題", home: "首頁", logo: "SITCON" } };
+		const target = { locale: { path: "en" }, nav: { title: "", faq: "常見問題", logo: "SITCON", about: "About" } };
+
+		assert.deepEqual(compareMessages(source, target), { total: 4, missing: ["nav.home"], extra: ["nav.about"], empty: ["nav.title"], untranslated: ["nav.faq"] });
+	});
+
+	it("pairs blocks keyed by their own text by position", () => {
+		const source = { chart: { 大學生: "大學生", 研究生: "研究生" } };
+
+		assert.deepEqual(compareMessages(source, { chart: { Undergraduates: "Undergraduates", "Graduate students": "Graduate students" } }).missing, []);
+		assert.deepEqual(compareMessages(source, { chart: { Undergraduates: "Undergraduates" } }).missing, ["chart.大學生", "chart.研究生"]);
+	});
+});
+
+describe("checkItemTranslations", () => {
+	it("counts every localized field of the recorded items as translated", () => {
+		const result = checkItemTranslations(ITEMS, "zh", "en");
+
+		assert.ok(result.total > 0);
+		assert.equal(result.translated, result.total);
+		assert.deepEqual(result.entries, []);
+	});
+
+	it("lists empty and copied fields per item, including sub-items", () => {
+		const items = clone(ITEMS);
+		const [id, item] = Object.entries(items).find(([, entry]) => entry.sub.length > 0);
+		item.global_description_en = "";
+		item.sub[0].name_en = item.sub[0].name_zh;
+
+		const result = checkItemTranslations(items, "zh", "en");
+
+		assert.deepEqual(result.entries, [
+			{
+				id,
+				name: item.name_zh,
+				issues: [
+					{ field: "global_description", type: "missing" },
+					{ field: "sub[0].name", type: "untranslated" }
+				]
+			}
+		]);
+		assert.equal(result.translated, result.total - 2);
+	});
+
+	it("ignores fields that are empty in the default locale too", () => {
+		assert.deepEqual(checkItemTranslations({ 1: { name_zh: "餐墊", name_en: "Placemat", brand_exposure_zh: "", brand_exposure_en: "", sub: [] } }, "zh", "en"), {
+			total: 1,
+			translated: 1,
+			entries: []
+		});
+	});
+});
+
+describe("buildCoverageReport", () => {
+	const locales = [
+		{ code: "en", meta: EN.locale, messages: EN },
+		{ code: "zh-Hant", meta: ZH.locale, messages: ZH }
+	];
+
+	it("compares every locale with the one served at the root", () => {
+		const report = buildCoverageReport(locales, ITEMS);
+
+		assert.equal(report.source, "zh-Hant");
+		assert.deepEqual(
+			report.locales.map(locale => locale.code),
+			["en"]
+		);
+		assert.equal(hasMissingTranslations(report.locales[0]), false);
+		assert.match(formatCoverageMarkdown(report), /Every item field is translated\./);
+	});
+
+	it("renders a row for each item with gaps", () => {
+		const items = clone(ITEMS);
+		items["2"].name_en = "";
+		const report = buildCoverageReport(locales, items);
+		const markdown = formatCoverageMarkdown(report);
+
+		assert.equal(hasMissingTranslations(report.locales[0]), true);
+		assert.ok(markdown.includes(`| ${items["2"].name_zh} (\`2\`) | \`name\` | — |`));
+	});
+});
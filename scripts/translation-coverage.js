@@ -0,0 +1,299 @@
+/**
+ * Checks how much of the site is translated: compares every i18n file with the default
+ * locale's key by key, and every localized field of item.json (name_zh / name_en ...) for
+ * text that is missing or was copied over untranslated. Pages fall back to the default
+ * locale's text for whatever this reports, so gaps are visible but never block the build.
+ */
+
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+
+const I18N_DIR = "./src/i18n";
+const ITEMS_PATH = "./src/data/item.json";
+
+// Chinese text left as is in another locale is treated as not yet translated
+const HAN_PATTERN = /\p{Script=Han}/u;
+
+// Keys whose text is the same in every language, e.g. people's names
+const SAME_TEXT_KEYS = [/^time\.teams\[\d+\]\.name$/];
+
+function isBlank(value) {
+	return typeof value !== "string" || value.trim() === "";
+}
+
+function isUntranslated(source, target) {
+	return target.trim() === source.trim() && HAN_PATTERN.test(source);
+}
+
+/**
+ * Flatten nested messages into dotted keys
+ * @param {unknown} messages - Parsed i18n JSON or a part of it
+ * @returns {Map<string, unknown>} Keys like "form.fields.name.title" or "faq.questions[0].answer"
+ */
+function flattenMessages(messages, prefix = "", result = new Map()) {
+	if (Array.isArray(messages)) {
+		messages.forEach((value, index) => flattenMessages(value, `${prefix}[${index}]`, result));
+	} else if (typeof messages === "object" && messages !== null) {
+		Object.entries(messages).forEach(([key, value]) => flattenMessages(value, prefix ? `${prefix}.${key}` : key, result));
+	} else {
+		result.set(prefix, messages);
+	}
+	return result;
+}
+
+/**
+ * Some blocks use the text itself as keys, like the timeline dates or the chart labels, so their
+ * keys differ in every language. Pair those by position instead of by key.
+ */
+function alignTextKeyedBlocks(source, target) {
+	if (Array.isArray(source) || Array.isArray(target) || typeof source !== "object" || typeof target !== "object" || source === null || target === null) {
+		return target;
+	}
+
+	const sourceKeys = Object.keys(source);
+	const targetKeys = Object.keys(target);
+	const sharesKeys = sourceKeys.some(key => key in target);
+
+	if (!sharesKeys && sourceKeys.length === targetKeys.length && sourceKeys.length > 0) {
+		return Object.fromEntries(sourceKeys.map((key, index) => [key, alignTextKeyedBlocks(source[key], target[targetKeys[index]])]));
+	}
+	return Object.fromEntries(targetKeys.map(key => [key, key in source ? alignTextKeyedBlocks(source[key], target[key]) : target[key]]));
+}
+
+/**
+ * Compare a locale's i18n file with the default locale's
+ * @param {object} source - Default locale messages
+ * @param {object} target - Messages of the locale to check
+ * @returns {{ total: number, missing: string[], extra: string[], empty: string[], untranslated: string[] }}
+ */
+function compareMessages(source, target) {
+	// The locale block describes the file itself and is different on purpose
+	const { locale: _sourceLocale, ...sourceMessages } = source;
+	const { locale: _targetLocale, ...targetMessages } = target;
+
+	const sourceKeys = flattenMessages(sourceMessages);
+	const targetKeys = flattenMessages(alignTextKeyedBlocks(sourceMessages, targetMessages));
+	const result = { total: sourceKeys.size, missing: [], extra: [], empty: [], untranslated: [] };
+
+	sourceKeys.forEach((sourceValue, key) => {
+		if (!targetKeys.has(key)) {
+			result.missing.push(key);
+			return;
+		}
+
+		const targetValue = targetKeys.get(key);
+		if (typeof sourceValue !== "string" || typeof targetValue !== "string") return;
+
+		if (isBlank(targetValue) && !isBlank(sourceValue)) {
+			result.empty.push(key);
+		} else if (isUntranslated(sourceValue, targetValue) && !SAME_TEXT_KEYS.some(pattern => pattern.test(key))) {
+			result.untranslated.push(key);
+		}
+	});
+	targetKeys.forEach((_, key) => {
+		if (!sourceKeys.has(key)) result.extra.push(key);
+	});
+
+	return result;
+}
+
+/**
+ * Check the localized fields of one item or sub-item
+ * @param {object} record - Item or sub-item from item.json
+ * @param {string} sourceField - Field suffix of the default locale, e.g. "zh"
+ * @param {string} targetField - Field suffix of the locale to check, e.g. "en"
+ * @param {string} prefix - Prefix for sub-item fields, e.g. "sub[0]."
+ */
+function checkRecordFields(record, sourceField, targetField, prefix = "") {
+	const suffix = `_${sourceField}`;
+	const issues = [];
+	let total = 0;
+
+	Object.keys(record)
+		.filter(key => key.endsWith(suffix))
+		.forEach(key => {
+			const field = key.slice(0, -suffix.length);
+			const source = record[key];
+			const target = record[`${field}_${targetField}`];
+			if (isBlank(source)) return;
+
+			total++;
+			if (isBlank(target)) {
+				issues.push({ field: prefix + field, type: "missing" });
+			} else if (isUntranslated(source, target)) {
+				issues.push({ field: prefix + field, type: "untranslated" });
+			}
+		});
+
+	return { total, issues };
+}
+
+/**
+ * Check every item and sub-item in item.json for one locale
+ * @param {Record<string, object>} items - item.json
+ * @param {string} sourceField - Field suffix of the default locale, e.g. "zh"
+ * @param {string} targetField - Field suffix of the locale to check, e.g. "en"
+ * @returns {{ total: number, translated: number, entries: { id: string, name: string, issues: { field: string, type: "missing" | "untranslated" }[] }[] }}
+ */
+function checkItemTranslations(items, sourceField, targetField) {
+	const result = { total: 0, translated: 0, entries: [] };
+
+	Object.entries(items).forEach(([id, item]) => {
+		const checks = [checkRecordFields(item, sourceField, targetField), ...(item.sub || []).map((subItem, index) => checkRecordFields(subItem, sourceField, targetField, `sub[${index}].`))];
+		const total = checks.reduce((sum, check) => sum + check.total, 0);
+		const issues = checks.flatMap(check => check.issues);
+
+		result.total += total;
+		result.translated += total - issues.length;
+		if (issues.length > 0) result.entries.push({ id, name: item[`name_${sourceField}`] || id, issues });
+	});
+
+	return result;
+}
+
+/**
+ * Build the coverage report of every locale against the default one
+ * @param {{ code: string, meta: { path: string, field: string }, messages: object }[]} locales - i18n files with their locale block
+ * @param {Record<string, object>} items - item.json
+ */
+function buildCoverageReport(locales, items) {
+	const source = locales.find(locale => locale.meta.path === "") ?? locales[0];
+
+	return {
+		generatedAt: new Date().toISOString(),
+		source: source.code,
+		locales: locales
+			.filter(locale => locale !== source)
+			.map(locale => ({
+				code: locale.code,
+				messages: compareMessages(source.messages, locale.messages),
+				items: checkItemTranslations(items, source.meta.field, locale.meta.field)
+			}))
+	};
+}
+
+/**
+ * Whether a locale has gaps that pages have to fill with the default locale's text
+ * @param {ReturnType<typeof buildCoverageReport>["locales"][number]} locale - Locale entry of the report
+ */
+function hasMissingTranslations(locale) {
+	return locale.messages.missing.length + locale.messages.empty.length > 0 || locale.items.entries.some(entry => entry.issues.some(issue => issue.type === "missing"));
+}
+
+function formatPercentage(part, total) {
+	return total === 0 ? "100%" : `${Math.floor((part / total) * 1000) / 10}%`;
+}
+
+function formatKeyList(title, keys) {
+	return keys.length === 0 ? [] : [`**${title}** (${keys.length})`, "", ...keys.map(key => `- \`${key}\``), ""];
+}
+
+/**
+ * Render the coverage report as Markdown, e.g. for the GitHub Actions job summary
+ * @param {ReturnType<typeof buildCoverageReport>} report - Report from buildCoverageReport
+ */
+function formatCoverageMarkdown(report) {
+	const lines = ["# Translation coverage", ""];
+
+	if (report.locales.length === 0) {
+		return [...lines, `Only ${report.source} is set up; there is nothing to compare.`, ""].join("\n");
+	}
+
+	lines.push("| Locale | i18n keys | Item fields |", "| --- | --- | --- |");
+	report.locales.forEach(({ code, messages, items }) => {
+		const translatedKeys = messages.total - messages.missing.length - messages.empty.length - messages.untranslated.length;
+		lines.push(
+			`| ${code} | ${translatedKeys}/${messages.total} (${formatPercentage(translatedKeys, messages.total)}) | ${items.translated}/${items.total} (${formatPercentage(items.translated, items.total)}) |`
+		);
+	});
+	lines.push("");
+
+	report.locales.forEach(({ code, messages, items }) => {
+		lines.push(`## ${code}`, "");
+
+		const messageLines = [
+			...formatKeyList(`Missing keys in ${code}.json`, messages.missing),
+			...formatKeyList("Empty values", messages.empty),
+			...formatKeyList(`Same text as ${report.source}`, messages.untranslated),
+			...formatKeyList(`Keys not in ${report.source}.json`, messages.extra)
+		];
+		lines.push(...(messageLines.length > 0 ? messageLines : [`${code}.json has every key of ${report.source}.json.`, ""]));
+
+		if (items.entries.length === 0) {
+			lines.push("Every item field is translated.", "");
+			return;
+		}
+
+		lines.push("| Item | Missing | Same text as source |", "| --- | --- | --- |");
+		items.entries.forEach(entry => {
+			const fieldsOf = type =>
+				entry.issues
+					.filter(issue => issue.type === type)
+					.map(issue => `\`${issue.field}\``)
+					.join(", ") || "—";
+			lines.push(`| ${entry.name} (\`${entry.id}\`) | ${fieldsOf("missing")} | ${fieldsOf("untranslated")} |`);
+		});
+		lines.push("");
+	});
+
+	return lines.join("\n");
+}
+
+// Read every src/i18n/<code>.json with a locale block, the same files src/utils/locales.ts uses
+function readLocales(i18nDir) {
+	return fs
+		.readdirSync(i18nDir)
+		.filter(file => file.endsWith(".json"))
+		.map(file => ({ code: path.basename(file, ".json"), messages: JSON.parse(fs.readFileSync(path.join(i18nDir, file), "utf8")) }))
+		.filter(locale => locale.messages.locale)
+		.map(locale => ({ ...locale, meta: locale.messages.locale }))
+		.sort((a, b) => a.meta.order - b.meta.order);
+}
+
+// Usage:
+//   pnpm check-translations [--report-dir <dir>] [--strict]
+// --report-dir writes translation-coverage.md and translation-coverage.json there;
+// --strict exits with an error when any key or item field is missing
+function parseCliOptions(args) {
+	const { values } = parseArgs({
+		args,
+		options: {
+			"report-dir": { type: "string" },
+			strict: { type: "boolean", default: false }
+		}
+	});
+	return values;
+}
+
+function main() {
+	const options = parseCliOptions(process.argv.slice(2));
+	const report = buildCoverageReport(readLocales(I18N_DIR), JSON.parse(fs.readFileSync(ITEMS_PATH, "utf8")));
+
+	report.locales.forEach(({ code, messages, items }) => {
+		const keyGaps = messages.missing.length + messages.empty.length;
+		const symbol = hasMissingTranslations({ messages, items }) ? "⚠" : "✓";
+		console.log(
+			`${symbol} ${code}: ${keyGaps} missing i18n key(s), ${messages.untranslated.length} same as ${report.source}; ${items.total - items.translated} untranslated item field(s) in ${items.entries.length} item(s)`
+		);
+	});
+
+	const reportDir = options["report-dir"];
+	if (reportDir) {
+		fs.mkdirSync(reportDir, { recursive: true });
+		fs.writeFileSync(path.join(reportDir, "translation-coverage.json"), JSON.stringify(report, null, 2), "utf8");
+		fs.writeFileSync(path.join(reportDir, "translation-coverage.md"), formatCoverageMarkdown(report), "utf8");
+		console.log(`✓ Wrote translation coverage report to ${reportDir}`);
+	}
+
+	if (options.strict && report.locales.some(hasMissingTranslations)) {
+		process.exit(1);
+	}
+}
+
+export { flattenMessages, compareMessages, checkItemTranslations, buildCoverageReport, hasMissingTranslations, formatCoverageMarkdown };
+
+// Run if this file is executed directly
+if (process.argv[1] === new URL(import.meta.url).pathname) {
+	main();
+}
@@ -0,0 +1,8 @@
+import type { APIRoute } from "astro";
+import { loadAvailabilityData } from "../utils/items-loader.js";
+
+// Stock and sale times polled by the site, see src/utils/availability.ts
+// The fetch-data workflow also publishes src/data/availability.json here directly, between deploys
+export const GET: APIRoute = async () => {
+	return new Response(JSON.stringify(await loadAvailabilityData()), { headers: { "Content-Type": "application/json" } });
+};
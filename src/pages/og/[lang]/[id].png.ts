@@ -0,0 +1,23 @@
+import type { APIRoute } from "astro";
+import { LOCALES } from "../../../utils/locales.js";
+import { loadItemsData, type ItemData } from "../../../utils/items-loader.js";
+import { getMessages } from "../../../utils/messages.js";
+import { getItemOgCard, renderOgCard } from "../../../utils/og-image.js";
+
+// One social card per item and edition, see src/utils/og-image.ts
+export const getStaticPaths = async () => {
+	const editions = await Promise.all(
+		LOCALES.map(async locale => {
+			const items = await loadItemsData(locale.code);
+			return items.map(item => ({ params: { lang: locale.code, id: item.id }, props: { item } }));
+		})
+	);
+	return editions.flat();
+};
+
+export const GET: APIRoute<{ item: ItemData }, { lang: string; id: string }> = async ({ params, props }) => {
+	const t = await getMessages(params.lang);
+	const png = await renderOgCard(getItemOgCard(props.item, params.lang, t));
+
+	return new Response(new Uint8Array(png), { headers: { "Content-Type": "image/png" } });
+};
@@ -1,10 +1,20 @@
-import { isItemInterested, addInterestedItem, removeInterestedItem, getInterestedItems, isDeadlinePassed, type InterestedItem } from "./local-storage.js";
+import { isItemInterested, addInterestedItem, removeInterestedItem, getInterestedItems, subscribeInterestedItems, type InterestedItem } from "./cart-store.js";
+import { isSaleOpen } from "./deadline.js";
 import { getItemDisplayPrice } from "./plan-helper.js";
+import { trackCartEvent } from "./analytics.js";
+import { openDialog } from "./dialog.js";
+import { announce, describeCartChanges } from "./live-region.js";
+import { getAvailability } from "./availability.js";
 
-declare global {
-	interface Window {
-		popupCtrl: (id?: string, action?: "open" | "close", updateUrl?: boolean, find?: Element | null) => void;
-	}
+/**
+ * Read the sale window of an add button
+ * @param button - Add button with data-item-deadline and data-item-start-time attributes
+ */
+export function getButtonSaleTimes(button: Element): { deadline: string; startTime: string } {
+	return {
+		deadline: button.getAttribute("data-item-deadline") || "",
+		startTime: button.getAttribute("data-item-start-time") || ""
+	};
 }
 
 /**
@@ -17,12 +27,11 @@ export function handleAddButtonClick(button: HTMLElement, event: Event): void {
 	event.stopPropagation();
 
 	const id = button.getAttribute("data-item-id") || "";
-	const itemDeadline = button.getAttribute("data-item-deadline") || "";
 	const card = button.closest(".card") || button.closest(".addon-card");
 	const isSoldOut = card?.getAttribute("data-is-sold-out") === "true";
 
-	// Disallow interactions for sold-out or expired items
-	if (isSoldOut || isDeadlinePassed(itemDeadline)) {
+	// Disallow interactions for sold-out, expired or not yet open items
+	if (isSoldOut || !isSaleOpen(getButtonSaleTimes(button))) {
 		return; // Don't allow adding expired items
 	}
 
@@ -31,59 +40,63 @@ export function handleAddButtonClick(button: HTMLElement, event: Event): void {
 
 	if (hasSubItems) {
 		// Open the popup for items with sub-items
-		const popupId = `item-popup-${id}`;
-		if (typeof window.popupCtrl === "function") {
-			window.popupCtrl(popupId, "open");
-		}
+		openDialog(`item-popup-${id}`);
 	} else {
 		// Toggle interested state for items without sub-items
 		const itemTitle = button.getAttribute("data-item-title") || button.getAttribute("data-item-name") || "";
 		const itemImage = button.getAttribute("data-item-image") || "";
 		const itemPrice = button.getAttribute("data-item-price") || "";
+		const itemPriceTwd = button.getAttribute("data-item-price-twd");
+		const maxQuantityAttr = button.getAttribute("data-item-max-quantity");
 
 		if (isItemInterested(id)) {
 			// Remove from interested items
-			removeInterestedItem(id);
+			const removed = getInterestedItems().filter(item => item.id === id);
+			if (removeInterestedItem(id)) trackCartEvent("remove_from_cart", removed);
 		} else {
 			// Add to interested items
 			const deadlineEl = card?.querySelector(".deadline-tag");
 			const displayDeadline = deadlineEl?.textContent || "";
 
-			// Get user's language preference (default to zh-Hant if not available)
-			const userLang = document.documentElement.lang || navigator.language || "zh-Hant";
+			// The page language; unknown languages fall back to the default locale
+			const userLang = document.documentElement.lang;
 
 			// Get display price (either actual price or plan inclusion info)
 			const displayPrice = getItemDisplayPrice(id, itemPrice, userLang);
 
-			addInterestedItem({
+			const item: InterestedItem = {
 				id: id,
 				title: itemTitle,
 				category: "all",
 				image: itemImage,
 				deadline: displayDeadline,
-				price: displayPrice
-			});
+				price: displayPrice,
+				priceTwd: itemPriceTwd ? parseInt(itemPriceTwd, 10) : undefined,
+				quantity: 1,
+				maxQuantity: maxQuantityAttr ? parseInt(maxQuantityAttr, 10) : undefined,
+				availabilityVersion: getAvailability(id)?.version
+			};
+			if (addInterestedItem(item)) trackCartEvent("add_to_cart", [item]);
 		}
 	}
 }
 
 /**
  * Updates the visual state of all add buttons based on the cart state
+ * @param items - The interest list, read from the cart store when not given
  */
-export function updateAddButtonStates(): void {
-	const items = getInterestedItems();
+export function updateAddButtonStates(items: InterestedItem[] = getInterestedItems()): void {
 	const ids = new Set(items.map((i: InterestedItem) => i.id));
 
 	const addButtons = document.querySelectorAll(".add-button") as NodeListOf<HTMLButtonElement>;
 	addButtons.forEach(button => {
 		const itemId = button.getAttribute("data-item-id");
-		const deadline = button.getAttribute("data-item-deadline") || "";
 		const card = button.closest(".card, .addon-card") as HTMLElement | null;
 		const soldOut = card?.getAttribute("data-is-sold-out") === "true";
 
-		// Check if deadline has passed or item sold out
-		const expired = isDeadlinePassed(deadline);
-		if (expired || soldOut) {
+		// Check if the item is outside its sale window (expired or not open yet) or sold out
+		const unavailable = !isSaleOpen(getButtonSaleTimes(button));
+		if (unavailable || soldOut) {
 			button.setAttribute("disabled", "true");
 			button.classList.add("disabled");
 			button.classList.remove("added");
@@ -96,7 +109,7 @@ export function updateAddButtonStates(): void {
 			// Check if this item or any of its sub-items are in cart
 			let hasItemInCart = ids.has(itemId);
 
-			// Also check if any sub-items are in cart (sub-items have IDs like "parent-id-sub-0")
+			// Also check if any sub-items are in cart (sub-items have IDs like "12-sub-4a49e0ad")
 			if (!hasItemInCart) {
 				for (const id of ids) {
 					if (typeof id === "string" && id.startsWith(itemId + "-sub-")) {
@@ -111,6 +124,11 @@ export function updateAddButtonStates(): void {
 			} else {
 				button.classList.remove("added");
 			}
+
+			// Buttons of items with sub-items open the popup instead of toggling
+			if (!button.closest("[data-has-sub-items='true']")) {
+				button.setAttribute("aria-pressed", String(hasItemInCart && !unavailable && !soldOut));
+			}
 		}
 	});
 }
@@ -121,8 +139,26 @@ let globalHandlersInitialized = false;
 let cardClickCallbacks: Set<(itemId: string, event: Event) => void> = new Set();
 // Track which cards have been initialized to prevent duplicate handlers
 const initializedCards = new WeakSet<HTMLElement>();
-// Track registered event listeners to prevent duplicates
-let eventListenersRegistered = false;
+// Track the cart subscription to prevent duplicates
+let cartSubscribed = false;
+// The list as last announced to screen readers
+let announcedItems: InterestedItem[] = [];
+
+/**
+ * Update the add buttons and announce what changed after the interest list changes
+ * @param items - The new interest list
+ * @param fromOtherTab - Changes made in another tab are not announced
+ */
+function handleCartChange(items: InterestedItem[], fromOtherTab: boolean): void {
+	updateAddButtonStates(items);
+
+	const announcer = document.getElementById("cartAnnouncer");
+	if (announcer && !fromOtherTab) {
+		const { added = "", removed = "", quantity = "" } = announcer.dataset;
+		announce(announcer, describeCartChanges(announcedItems, items, { added, removed, quantity }));
+	}
+	announcedItems = items;
+}
 
 /**
  * Sets up global click handlers for add buttons (only once)
@@ -183,6 +219,13 @@ export function setupCardClickHandlers(): void {
 				cardClickCallbacks.forEach(callback => callback(itemId, e));
 			});
 
+			// Enter and Space open the card like a click, but not when pressed on its add button
+			card.addEventListener("keydown", e => {
+				if (e.target !== card || (e.key !== "Enter" && e.key !== " ")) return;
+				e.preventDefault();
+				cardClickCallbacks.forEach(callback => callback(itemId, e));
+			});
+
 			// Mark this card as initialized
 			initializedCards.add(card);
 		}
@@ -210,10 +253,10 @@ export function initializeAddToCart(
 	// Update button states initially
 	updateAddButtonStates();
 
-	// Listen for cart changes only once to prevent duplicate event listeners
-	if (!eventListenersRegistered) {
-		window.addEventListener("itemsChange", updateAddButtonStates);
-		document.addEventListener("interested-items-changed", updateAddButtonStates);
-		eventListenersRegistered = true;
+	// Follow cart changes, including those made in other tabs, only once
+	if (!cartSubscribed) {
+		announcedItems = getInterestedItems();
+		subscribeInterestedItems(handleCartChange);
+		cartSubscribed = true;
 	}
 }
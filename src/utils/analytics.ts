@@ -0,0 +1,230 @@
+/**
+ * GA4 e-commerce events of the sponsor funnel
+ *
+ * Events are typed by name and sent through an adapter: dataLayerAdapter pushes them to Google Tag
+ * Manager, noopAdapter drops them (e.g. in tests, or to check an event without GTM). Analytics
+ * is opt-in: GTM is only loaded and events are only sent once the visitor grants consent.
+ */
+
+import type { InterestedItem } from "./cart-store.js";
+import type { ItemData } from "./items-loader.js";
+import { getSubItemCartId } from "./plan-helper.js";
+
+declare global {
+	interface Window {
+		dataLayer: any[];
+		loadGoogleTagManager?: () => void; // Defined by GoogleTagManager.astro
+	}
+}
+
+const ITEM_CATEGORY = "2026 CFS";
+const CONSENT_KEY = "analyticsConsent";
+
+export interface AnalyticsItem {
+	item_id: string; // Cart ID, e.g. "12", "12-sub-4a49e0ad" or "tier-navigator"
+	item_name: string;
+	item_category: string;
+	item_variant?: string; // Sub-item or tier
+	price?: number; // TWD; left out for items only sold in tiers
+	quantity?: number;
+	item_list_id?: string;
+	item_list_name?: string;
+}
+
+interface EcommerceParams {
+	currency: "TWD";
+	value: number;
+	items: AnalyticsItem[];
+}
+
+export interface AnalyticsEvents {
+	view_item: EcommerceParams;
+	select_item: { item_list_id: string; item_list_name: string; items: AnalyticsItem[] };
+	add_to_cart: EcommerceParams;
+	remove_from_cart: EcommerceParams;
+	view_cart: EcommerceParams;
+	begin_checkout: EcommerceParams;
+	generate_lead: { currency: "TWD"; value: number; lead_source: string };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEvents;
+
+export interface AnalyticsAdapter {
+	send<E extends AnalyticsEventName>(name: E, params: AnalyticsEvents[E]): void;
+}
+
+export const dataLayerAdapter: AnalyticsAdapter = {
+	send(name, params) {
+		window.dataLayer = window.dataLayer || [];
+
+		if ("items" in params) {
+			// GA4 merges the ecommerce objects of consecutive pushes unless the previous one is cleared
+			window.dataLayer.push({ ecommerce: null });
+			window.dataLayer.push({ event: name, ecommerce: params, page_path: window.location.pathname });
+		} else {
+			window.dataLayer.push({ event: name, ...params, page_path: window.location.pathname });
+		}
+	}
+};
+
+export const noopAdapter: AnalyticsAdapter = {
+	send() {}
+};
+
+let adapter: AnalyticsAdapter = dataLayerAdapter;
+
+/**
+ * Replace where events are sent
+ * @param next - e.g. noopAdapter, or an adapter that records the events of a test
+ */
+export function setAnalyticsAdapter(next: AnalyticsAdapter): void {
+	adapter = next;
+}
+
+export type AnalyticsConsent = "granted" | "denied";
+
+// Consent commands are only understood as gtag() calls, which push their arguments object
+function gtag(..._args: unknown[]): void {
+	window.dataLayer = window.dataLayer || [];
+	window.dataLayer.push(arguments);
+}
+
+/**
+ * Get the visitor's analytics consent
+ * @returns The saved choice; denied until the visitor opts in
+ */
+export function getAnalyticsConsent(): AnalyticsConsent {
+	if (typeof window === "undefined") return "denied";
+
+	try {
+		const saved = localStorage.getItem(CONSENT_KEY);
+		if (saved === "granted" || saved === "denied") return saved;
+	} catch (error) {
+		console.error("Error getting analytics consent from localStorage:", error);
+	}
+
+	return "denied";
+}
+
+/**
+ * Save the visitor's analytics consent and pass it on to Google's consent mode
+ * @param consent - The visitor's choice
+ */
+export function setAnalyticsConsent(consent: AnalyticsConsent): void {
+	if (typeof window === "undefined") return;
+
+	try {
+		localStorage.setItem(CONSENT_KEY, consent);
+	} catch (error) {
+		console.error("Error saving analytics consent to localStorage:", error);
+	}
+
+	gtag("consent", "update", { analytics_storage: consent });
+	if (consent === "granted") window.loadGoogleTagManager?.();
+}
+
+/**
+ * Send an event if the visitor allows analytics
+ * @param name - GA4 event name
+ * @param params - Event parameters
+ * @returns true if the event was sent
+ */
+export function trackEvent<E extends AnalyticsEventName>(name: E, params: AnalyticsEvents[E]): boolean {
+	if (typeof window === "undefined" || getAnalyticsConsent() !== "granted") return false;
+
+	try {
+		adapter.send(name, params);
+		return true;
+	} catch (error) {
+		console.error(`Error sending analytics event ${name}:`, error);
+		return false;
+	}
+}
+
+/**
+ * Sum the prices of analytics items, multiplied by quantity
+ * @param items - Items with prices in TWD
+ */
+export function getAnalyticsValue(items: AnalyticsItem[]): number {
+	return items.reduce((sum, item) => sum + (item.price ?? 0) * (item.quantity ?? 1), 0);
+}
+
+/**
+ * Describe an item and its sub-items for view_item and select_item, at build time
+ * @param item - Localized item
+ * @returns The item itself, or one entry per sub-item
+ */
+export function getItemAnalyticsItems(item: ItemData): AnalyticsItem[] {
+	if (item.sub.length === 0) {
+		return [{ item_id: item.id, item_name: item.name, item_category: ITEM_CATEGORY, price: item.price_twd ?? undefined }];
+	}
+
+	return item.sub.map(subItem => ({
+		item_id: getSubItemCartId(item.id, subItem.id),
+		item_name: item.name,
+		item_category: ITEM_CATEGORY,
+		item_variant: subItem.name,
+		price: subItem.price_twd ?? undefined
+	}));
+}
+
+/**
+ * Describe interest list entries for the cart events
+ * @param items - Entries from localStorage
+ */
+export function toAnalyticsItems(items: InterestedItem[]): AnalyticsItem[] {
+	return items.map(item => ({
+		item_id: item.id,
+		item_name: item.title || "unknown",
+		item_category: ITEM_CATEGORY,
+		item_variant: item.id.startsWith("tier-") ? "tier" : undefined,
+		price: item.priceTwd,
+		quantity: item.quantity ?? 1
+	}));
+}
+
+/**
+ * Send a cart event: add_to_cart, remove_from_cart, view_cart or begin_checkout
+ * @param name - Event name
+ * @param items - The entries the event is about
+ */
+export function trackCartEvent(name: "add_to_cart" | "remove_from_cart" | "view_cart" | "begin_checkout", items: InterestedItem[]): boolean {
+	const analyticsItems = toAnalyticsItems(items);
+	return trackEvent(name, { currency: "TWD", value: getAnalyticsValue(analyticsItems), items: analyticsItems });
+}
+
+// Item popups carry getItemAnalyticsItems() of their item as JSON in data-analytics-items
+function readPopupAnalyticsItems(itemId: string): AnalyticsItem[] {
+	try {
+		return JSON.parse(document.querySelector(`.popup-content[data-item-id="${itemId}"]`)?.getAttribute("data-analytics-items") || "[]");
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Send view_item for an item whose popup was opened
+ * @param itemId - Item ID
+ */
+export function trackViewItem(itemId: string): boolean {
+	const items = readPopupAnalyticsItems(itemId);
+	// An item with sub-items is worth its cheapest option
+	const prices = items.map(item => item.price).filter((price): price is number => price !== undefined);
+	return trackEvent("view_item", { currency: "TWD", value: prices.length > 0 ? Math.min(...prices) : 0, items });
+}
+
+const ITEM_LISTS = {
+	items: "Sponsorship items",
+	addons: "Add-ons",
+	plans: "Plan comparison"
+};
+
+/**
+ * Send select_item for an item picked from a list on the page
+ * @param itemId - Item ID
+ * @param list - The list the item was picked from
+ */
+export function trackSelectItem(itemId: string, list: keyof typeof ITEM_LISTS): boolean {
+	const items = readPopupAnalyticsItems(itemId).map(item => ({ ...item, item_list_id: list, item_list_name: ITEM_LISTS[list] }));
+	return trackEvent("select_item", { item_list_id: list, item_list_name: ITEM_LISTS[list], items });
+}
@@ -0,0 +1,231 @@
+/**
+ * Live stock and sale times, refreshed from availability.json between deploys
+ *
+ * The HTML holds the stock of the last build. The fetch-data workflow publishes a fresh
+ * availability.json after every fetch without rebuilding the site, so the page loads it on
+ * start, every few minutes while it is visible and whenever the visitor returns to the tab,
+ * then updates the cards, item dialogs and countdowns in place. Listeners registered with
+ * subscribeAvailability (the add buttons and the interest list) follow each new version.
+ *
+ * Markup: tags and buttons that depend on the stock are always rendered and toggled with
+ * hidden: [data-sold-out-tag], [data-hide-when-sold-out], [data-remaining-label] and
+ * [data-deadline-label] tags, card add buttons and sub-item add buttons.
+ */
+
+import type { AvailabilityRaw, ItemAvailabilityRaw } from "./data-schema.js";
+import type { InterestedItem } from "./cart-store.js";
+import { formatDeadlineDate, isSaleOpen } from "./deadline.js";
+import { isSoldOut } from "./item-status.js";
+import { BASE_PATH } from "./locales.js";
+import { getSubItemCartId, parseSubItemCartId } from "./plan-helper.js";
+
+export const AVAILABILITY_URL = `${BASE_PATH}/availability.json`;
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+// Focus and visibility changes come in bursts, e.g. when switching windows
+const MIN_REFRESH_GAP_MS = 30 * 1000;
+
+export interface Availability {
+	remaining: string;
+	deadline: string;
+	startTime: string;
+	version: string;
+}
+
+export type CartWarning = { reason: "unavailable" } | { reason: "reduced"; remaining: number } | { reason: "changed"; remaining: number };
+
+export type AvailabilityListener = (data: AvailabilityRaw) => void;
+
+let current: AvailabilityRaw | null = null;
+let lastRefresh = 0;
+let started = false;
+const listeners = new Set<AvailabilityListener>();
+
+/**
+ * Get the latest stock and sale times of an item or sub-item
+ * @param cartId - Item ID or sub-item cart ID, e.g. "12-sub-4a49e0ad"
+ * @returns null before availability.json has loaded, and for tiers and unknown IDs
+ */
+export function getAvailability(cartId: string): Availability | null {
+	const subItemId = parseSubItemCartId(cartId);
+	const item = current?.items[subItemId?.itemId ?? cartId];
+	if (!item) return null;
+
+	if (!subItemId) return { remaining: item.remaining, deadline: item.deadline, startTime: item.start_time, version: item.version };
+
+	const subItem = item.sub.find(candidate => candidate.id === subItemId.subItemId);
+	if (!subItem) return null;
+	return {
+		// A sold-out item sells out all of its sub-items
+		remaining: item.remaining === "0" ? "0" : subItem.remaining,
+		deadline: item.deadline,
+		startTime: subItem.start_time || item.start_time,
+		version: subItem.version
+	};
+}
+
+/**
+ * Find out whether an interest list entry needs the sponsor's attention
+ * Sold-out entries, entries outside their sale time and entries above the remaining stock are
+ * reported whenever they were added. The version only tells whether the stock changed since
+ * the entry was added, which is reported for entries that are otherwise fine.
+ * @param entry - The interest list entry
+ * @returns Why the entry needs attention, or null
+ */
+export function getCartWarning(entry: InterestedItem): CartWarning | null {
+	const availability = getAvailability(entry.id);
+	if (!availability) return null;
+
+	if (availability.remaining === "0" || !isSaleOpen(availability)) return { reason: "unavailable" };
+
+	const remaining = parseInt(availability.remaining, 10);
+	if (isNaN(remaining)) return null;
+	if (remaining < (entry.quantity ?? 1)) return { reason: "reduced", remaining };
+
+	// Entries added before availability.json loaded have no version to compare with
+	const changed = entry.availabilityVersion !== undefined && availability.version !== entry.availabilityVersion;
+	return changed ? { reason: "changed", remaining } : null;
+}
+
+/**
+ * Follow new versions of availability.json
+ * @param listener - Called after the page was updated with a new version
+ * @returns A function that stops calling the listener
+ */
+export function subscribeAvailability(listener: AvailabilityListener): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+// Sum of the sub-items' stock, like the remaining tag of ItemCard.astro
+function getTotalRemaining(item: ItemAvailabilityRaw): number {
+	if (item.sub.length === 0) return parseInt(item.remaining, 10) || 0;
+	return item.sub.reduce((sum, subItem) => sum + (parseInt(subItem.remaining, 10) || 0), 0);
+}
+
+function setSaleTimes(root: HTMLElement, deadline: string, startTime: string): void {
+	root.querySelectorAll<HTMLElement>("[data-countdown]").forEach(countdown => {
+		countdown.setAttribute("data-deadline", deadline);
+		countdown.setAttribute("data-start-time", startTime);
+	});
+	root.querySelectorAll<HTMLElement>(".add-button").forEach(button => {
+		button.setAttribute("data-item-deadline", deadline);
+		button.setAttribute("data-item-start-time", startTime);
+	});
+}
+
+// Tags such as "剩餘 3 個" and "3/20 截止", shared by the cards and the item dialogs
+function updateTags(root: HTMLElement, item: ItemAvailabilityRaw, soldOut: boolean): void {
+	root.querySelectorAll<HTMLElement>("[data-sold-out-tag]").forEach(tag => (tag.hidden = !soldOut));
+	root.querySelectorAll<HTMLElement>("[data-hide-when-sold-out]").forEach(tag => (tag.hidden = soldOut));
+
+	const total = getTotalRemaining(item);
+	root.querySelectorAll<HTMLElement>("[data-remaining-label]").forEach(tag => {
+		tag.hidden = soldOut || total <= 0;
+		tag.textContent = `${tag.dataset.remainingLabel} ${total} ${tag.dataset.unit}`;
+	});
+
+	root.querySelectorAll<HTMLElement>("[data-deadline-label]").forEach(tag => {
+		const date = formatDeadlineDate(item.deadline);
+		tag.hidden = date === "";
+		tag.textContent = `${date} ${tag.dataset.deadlineLabel}`;
+	});
+}
+
+function updateCard(card: HTMLElement, item: ItemAvailabilityRaw, soldOut: boolean): void {
+	card.setAttribute("data-is-sold-out", String(soldOut));
+	card.setAttribute("data-deadline", item.deadline);
+	card.setAttribute("data-start-time", item.start_time);
+	// Add-on cards keep their add button, which updateAddButtonStates disables instead
+	if (card.classList.contains("card")) {
+		card.classList.toggle("sold-out", soldOut);
+		card.querySelector<HTMLElement>(".add-button")?.toggleAttribute("hidden", soldOut);
+	}
+
+	setSaleTimes(card, item.deadline, item.start_time);
+	updateTags(card, item, soldOut);
+
+	const remaining = parseInt(item.remaining, 10);
+	if (!isNaN(remaining)) card.querySelector(".add-button")?.setAttribute("data-item-max-quantity", String(remaining));
+}
+
+function updateItemDialog(dialog: HTMLElement, itemId: string, item: ItemAvailabilityRaw, soldOut: boolean): void {
+	setSaleTimes(dialog, item.deadline, item.start_time);
+	updateTags(dialog, item, soldOut);
+
+	item.sub.forEach(subItem => {
+		const row = dialog.querySelector<HTMLElement>(`.sub-item[data-sub-item-id="${CSS.escape(getSubItemCartId(itemId, subItem.id))}"]`);
+		if (!row) return;
+
+		const subSoldOut = item.remaining === "0" || subItem.remaining === "0";
+		row.querySelector<HTMLElement>(".sub-item-sold-out")?.toggleAttribute("hidden", !subSoldOut);
+
+		const button = row.querySelector<HTMLElement>(".sub-add-button");
+		if (!button) return;
+		button.hidden = subSoldOut;
+		button.setAttribute("data-item-deadline", item.deadline);
+		button.setAttribute("data-item-start-time", subItem.start_time || item.start_time);
+		const remaining = parseInt(subItem.remaining, 10);
+		if (!isNaN(remaining)) button.setAttribute("data-sub-item-max-quantity", String(remaining));
+	});
+}
+
+function applyAvailability(data: AvailabilityRaw): void {
+	for (const [itemId, item] of Object.entries(data.items)) {
+		const soldOut = isSoldOut(item);
+		const id = CSS.escape(itemId);
+
+		document.querySelectorAll<HTMLElement>(`.card[data-card-id="${id}"], .addon-card[data-item-id="${id}"]`).forEach(card => updateCard(card, item, soldOut));
+		document.querySelectorAll<HTMLElement>(`.popup-content[data-item-id="${id}"]`).forEach(dialog => updateItemDialog(dialog, itemId, item, soldOut));
+	}
+}
+
+/**
+ * Load availability.json and update the page when it changed
+ * @param force - Ignore the gap kept between refreshes
+ */
+export async function refreshAvailability(force = false): Promise<void> {
+	if (!force && Date.now() - lastRefresh < MIN_REFRESH_GAP_MS) return;
+	lastRefresh = Date.now();
+
+	try {
+		// Revalidate with the server instead of trusting the HTTP cache
+		const response = await fetch(AVAILABILITY_URL, { cache: "no-cache" });
+		if (!response.ok) return;
+
+		const data: AvailabilityRaw = await response.json();
+		if (data.version === current?.version) return;
+
+		current = data;
+		applyAvailability(data);
+		listeners.forEach(listener => {
+			try {
+				listener(data);
+			} catch (error) {
+				console.error("Error in availability listener:", error);
+			}
+		});
+	} catch (error) {
+		// Offline or a deploy in progress; the next refresh tries again
+		if (import.meta.env.DEV) console.error("Error refreshing availability:", error);
+	}
+}
+
+/**
+ * Start refreshing availability: now, on an interval while the page is visible, and when the
+ * visitor comes back to it. Only the first call does anything.
+ */
+export function initializeAvailability(): void {
+	if (started) return;
+	started = true;
+
+	refreshAvailability(true);
+	setInterval(() => {
+		if (document.visibilityState === "visible") refreshAvailability();
+	}, REFRESH_INTERVAL_MS);
+	document.addEventListener("visibilitychange", () => {
+		if (document.visibilityState === "visible") refreshAvailability();
+	});
+	window.addEventListener("focus", () => refreshAvailability());
+}
@@ -0,0 +1,243 @@
+/**
+ * Share the interest list between browsers, as a link or as a JSON file
+ *
+ * Only item IDs and quantities are shared. Titles, prices and limits are looked up again
+ * from item.json and plan.json when the list is restored, so a shared list never carries
+ * stale data. IDs that no longer exist, items that are sold out or not on sale, and tiers
+ * after the first one are reported instead of silently restored.
+ *
+ * Link format: ?cart=1-sub-6291e783*2.12.tier-navigator
+ * - entries are separated by "." and a quantity above 1 follows "*"
+ * - all characters stay unescaped in a query string
+ * - links from before sub-items had their own IDs ("1-sub-0") still resolve to the same sub-item
+ */
+
+import { clampQuantity, migrateLegacyItemId, type InterestedItem } from "./cart-store.js";
+import { findItemByNameOrId, getAllPlans, getItemDisplayPrice, getPlanName } from "./plan-helper.js";
+import { getLocalizedField } from "./locales.js";
+import { getMaxQuantity, isInactive } from "./item-status.js";
+import { formatDeadlineDate, isSaleOpen } from "./deadline.js";
+import { getAvailability } from "./availability.js";
+import { parsePrice } from "./price.js";
+
+export const CART_QUERY_PARAM = "cart";
+const CART_EXPORT_VERSION = 1;
+const ENTRY_SEPARATOR = ".";
+const QUANTITY_SEPARATOR = "*";
+const ENTRY_PATTERN = /^(tier-[a-z_]+|\d+(?:-sub-[a-z0-9_-]+)?)(?:\*(\d+))?$/;
+// public/items under the site base, e.g. "/2026/cfs/items"
+const ITEM_IMAGE_PATH = `${import.meta.env.BASE_URL.replace(/\/$/, "")}/items`;
+
+export interface CartShareEntry {
+	id: string;
+	quantity: number;
+}
+
+export interface CartExport {
+	version: number;
+	items: CartShareEntry[];
+}
+
+export interface ResolvedCart {
+	items: InterestedItem[];
+	unknownIds: string[]; // IDs missing from item.json / plan.json
+	unavailableIds: string[]; // Sold out, past the deadline, not open yet, or a full tier
+	extraTierIds: string[]; // Tiers after the first one, since only one tier can be chosen (see Plans.astro)
+}
+
+export class CartShareError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CartShareError";
+	}
+}
+
+/**
+ * Merge duplicate IDs and drop invalid quantities
+ * @param entries - Entries in any order, possibly with duplicates
+ */
+function normalizeEntries(entries: CartShareEntry[]): CartShareEntry[] {
+	const quantities = new Map<string, number>();
+	entries.forEach(entry => {
+		if (!entry.id) return;
+		quantities.set(entry.id, (quantities.get(entry.id) ?? 0) + clampQuantity(entry.quantity));
+	});
+	return [...quantities].map(([id, quantity]) => ({ id, quantity }));
+}
+
+/**
+ * Encode the interest list for a share link
+ * @param entries - Item IDs and quantities
+ * @returns Compact string for the ?cart= parameter
+ */
+export function encodeCartState(entries: CartShareEntry[]): string {
+	return normalizeEntries(entries)
+		.map(entry => (entry.quantity > 1 ? `${entry.id}${QUANTITY_SEPARATOR}${entry.quantity}` : entry.id))
+		.join(ENTRY_SEPARATOR);
+}
+
+/**
+ * Decode the ?cart= parameter of a share link
+ * @param value - Encoded cart state; malformed entries are skipped
+ * @returns Item IDs and quantities
+ */
+export function decodeCartState(value: string): CartShareEntry[] {
+	const entries = value
+		.split(ENTRY_SEPARATOR)
+		.map(part => part.trim().match(ENTRY_PATTERN))
+		.filter((match): match is RegExpMatchArray => match !== null)
+		.map(match => ({ id: match[1], quantity: match[2] ? parseInt(match[2], 10) : 1 }));
+
+	return normalizeEntries(entries);
+}
+
+/**
+ * Build a link that restores the interest list on the home page
+ * @param entries - Item IDs and quantities
+ * @param pageUrl - Page to link to, defaults to the current page without query or hash
+ */
+export function buildCartShareUrl(entries: CartShareEntry[], pageUrl: string = window.location.origin + window.location.pathname): string {
+	const url = new URL(pageUrl);
+	url.search = "";
+	url.hash = "";
+	// Set the query by hand so "*" stays readable instead of becoming %2A
+	return `${url.toString()}?${CART_QUERY_PARAM}=${encodeCartState(entries)}`;
+}
+
+/**
+ * Serialize the interest list for a JSON download
+ * @param entries - Item IDs and quantities
+ */
+export function exportCartJson(entries: CartShareEntry[]): string {
+	const data: CartExport = { version: CART_EXPORT_VERSION, items: normalizeEntries(entries) };
+	return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Read an exported interest list
+ * @param text - Contents of the JSON file
+ * @returns Item IDs and quantities
+ * @throws CartShareError when the file is not an exported interest list
+ */
+export function parseCartJson(text: string): CartShareEntry[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new CartShareError("File is not valid JSON");
+	}
+
+	if (typeof data !== "object" || data === null || !Array.isArray((data as CartExport).items)) {
+		throw new CartShareError('Expected an object with an "items" array');
+	}
+	if ((data as CartExport).version !== CART_EXPORT_VERSION) {
+		throw new CartShareError(`Unsupported version ${(data as CartExport).version}`);
+	}
+
+	const entries = (data as CartExport).items.filter(
+		(entry): entry is CartShareEntry => typeof entry === "object" && entry !== null && typeof entry.id === "string" && (entry.quantity === undefined || typeof entry.quantity === "number")
+	);
+
+	return normalizeEntries(entries.map(entry => ({ id: entry.id, quantity: entry.quantity ?? 1 })));
+}
+
+/**
+ * Turn shared entries back into interest list items using the current data
+ * @param entries - Item IDs and quantities
+ * @param options - Page language and the localized "deadline" label, e.g. "截止"
+ */
+export function resolveCartEntries(entries: CartShareEntry[], options: { lang: string; deadlineLabel: string }): ResolvedCart {
+	const { lang, deadlineLabel } = options;
+	const plans = getAllPlans();
+	const items: InterestedItem[] = [];
+	const unknownIds: string[] = [];
+	const unavailableIds: string[] = [];
+	const extraTierIds: string[] = [];
+
+	entries.forEach(({ id: sharedId, quantity }) => {
+		// A current ID wins over a positional one that happens to look the same
+		const id = findItemByNameOrId(sharedId)?.itemId === sharedId ? sharedId : migrateLegacyItemId(sharedId);
+
+		if (id.startsWith("tier-")) {
+			const plan = plans.find(p => `tier-${p.id}` === id);
+			if (!plan) {
+				unknownIds.push(id);
+				return;
+			}
+			if (plan.display.remaining === 0) {
+				unavailableIds.push(id);
+				return;
+			}
+			if (items.some(item => item.id.startsWith("tier-"))) {
+				extraTierIds.push(id);
+				return;
+			}
+
+			items.push({ id, title: getPlanName(plan, lang), category: "plan", image: "", deadline: "", price: plan.price, priceTwd: parsePrice(plan.price) || undefined, quantity: 1, maxQuantity: 1 });
+			return;
+		}
+
+		// Only exact IDs count; findItemByNameOrId also matches names. Items with sub-items are
+		// only added through their sub-items, so their own ID cannot be restored either.
+		const result = findItemByNameOrId(id);
+		if (!result || result.itemId !== id || (!result.subItemData && result.itemData.sub.length > 0)) {
+			unknownIds.push(sharedId);
+			return;
+		}
+
+		const { itemData, subItemData } = result;
+		const name = subItemData ?? itemData;
+		const maxQuantity = getMaxQuantity(itemData.quantity, subItemData ? subItemData.remaining : itemData.remaining);
+		const saleOpen = isSaleOpen({ deadline: itemData.deadline, startTime: subItemData?.start_time || itemData.start_time });
+		if (isInactive(itemData) || !saleOpen || maxQuantity === 0) {
+			unavailableIds.push(sharedId);
+			return;
+		}
+
+		const deadline = formatDeadlineDate(itemData.deadline);
+		const price = subItemData ? subItemData.price : itemData.price;
+
+		items.push({
+			id,
+			title: getLocalizedField(name, "name", lang),
+			category: "all",
+			// Matches what ItemCard and ItemPopup store: the file name for items, the popup image path for sub-items
+			image: subItemData ? `${ITEM_IMAGE_PATH}/${itemData.image}` : itemData.image,
+			deadline: deadline ? `${deadline} ${deadlineLabel}` : "",
+			price: getItemDisplayPrice(id, price, lang),
+			// The standalone price even when a tier includes the item, like the add buttons store
+			priceTwd: parsePrice(price) || undefined,
+			quantity: clampQuantity(quantity, maxQuantity),
+			maxQuantity,
+			// Like the add buttons, so later stock changes are flagged on restored entries too
+			availabilityVersion: getAvailability(id)?.version
+		});
+	});
+
+	return { items, unknownIds, unavailableIds, extraTierIds };
+}
+
+/**
+ * Merge restored items into the current interest list
+ * @param current - The list in this browser
+ * @param incoming - Items restored from a link or file
+ * @returns A new list, leaving current untouched; shared quantities win when higher, and a shared tier replaces the current one
+ */
+export function mergeCartItems(current: InterestedItem[], incoming: InterestedItem[]): InterestedItem[] {
+	// Only one tier can be chosen at a time (see Plans.astro)
+	const incomingHasTier = incoming.some(item => item.id.startsWith("tier-"));
+	const merged = current.filter(item => !(incomingHasTier && item.id.startsWith("tier-")));
+
+	incoming.forEach(item => {
+		const index = merged.findIndex(i => i.id === item.id);
+		if (index === -1) {
+			merged.push({ ...item });
+			return;
+		}
+
+		const existing = merged[index];
+		merged[index] = { ...existing, quantity: clampQuantity(Math.max(existing.quantity ?? 1, item.quantity ?? 1), item.maxQuantity) };
+	});
+
+	return merged;
+}
@@ -0,0 +1,286 @@
+/**
+ * The interest list ("cart") shared by every component on the page and every open tab
+ *
+ * The list is saved in localStorage as { version, items }. Lists saved in an older format are
+ * migrated when read, so a visitor never loses their selection after a deploy. Components read
+ * it with getInterestedItems and follow changes with subscribeInterestedItems, which also
+ * reports changes made in other tabs.
+ */
+
+import legacySubItemIds from "@data/legacy-sub-item-ids.json" with { type: "json" };
+import { parsePrice } from "./price.js";
+
+export interface InterestedItem {
+	id: string;
+	title: string;
+	category: string;
+	image: string;
+	deadline: string;
+	price?: string; // Price like "$40,000" or plan info like "包含在領航級"
+	priceTwd?: number; // The same price as a number, undefined for plan-included items and entries saved before this field existed
+	minimalPlan?: string; // The minimal plan that includes this item (plan id like "navigator")
+	quantity?: number; // Number of units, entries saved before this field existed load as 1
+	maxQuantity?: number; // Upper bound from item.json remaining/quantity, undefined when unlimited
+	availabilityVersion?: string; // Version of the item's stock and sale times when it was added, see availability.ts
+}
+
+// fromOtherTab is true when the change was made in another tab, e.g. to skip opening the interest list
+export type InterestedItemsListener = (items: InterestedItem[], fromOtherTab: boolean) => void;
+
+const CART_STORAGE_KEY = "interestItems";
+export const CART_STORAGE_VERSION = 3;
+
+interface StoredCart {
+	version: number;
+	items: InterestedItem[];
+}
+
+/**
+ * Translate an old sub-item ID into the current one
+ * @param id - A cart ID; sub-items used to be numbered by position, e.g. "1-sub-0", and IDs change when one is filled in on the sheet
+ * @returns The current ID of that sub-item, or the ID unchanged when it is not an old one
+ */
+export function migrateLegacyItemId(id: string): string {
+	// Positions as of the last version that used them, and IDs changed since; see src/data/legacy-sub-item-ids.json
+	return (legacySubItemIds as Record<string, string>)[id] ?? id;
+}
+
+function isStoredItems(items: unknown): items is InterestedItem[] {
+	return Array.isArray(items) && items.every(item => typeof item === "object" && item !== null && "id" in item && typeof item.id === "string");
+}
+
+function isStoredCart(data: unknown): data is StoredCart {
+	return typeof data === "object" && data !== null && "version" in data && typeof data.version === "number" && "items" in data && isStoredItems(data.items);
+}
+
+// Each migration turns data saved in version n into version n + 1, or returns null when the data is unreadable
+const MIGRATIONS: Record<number, (data: unknown) => StoredCart | null> = {
+	// Version 1 was a bare array, and entries saved before quantities existed have no quantity
+	1: data => (isStoredItems(data) ? { version: 2, items: data.map(item => ({ ...item, quantity: item.quantity ?? 1 })) } : null),
+	// Version 2 numbered sub-items by their position in the sheet
+	2: data => (isStoredCart(data) ? { version: 3, items: data.items.map(item => ({ ...item, id: migrateLegacyItemId(item.id) })) } : null)
+};
+
+/**
+ * Bring saved cart data up to the current format
+ * @param data - Parsed localStorage value in any version
+ * @returns The cart in the current version, or null if it was saved by a newer version of the site or is unreadable
+ */
+export function migrateStoredCart(data: unknown): StoredCart | null {
+	let cart: unknown = data;
+	let version = Array.isArray(data) ? 1 : typeof data === "object" && data !== null && "version" in data ? Number(data.version) : NaN;
+
+	while (version < CART_STORAGE_VERSION && MIGRATIONS[version]) {
+		const migrated = MIGRATIONS[version](cart);
+		if (!migrated) return null;
+		cart = migrated;
+		version = migrated.version;
+	}
+
+	if (version !== CART_STORAGE_VERSION || !isStoredCart(cart)) return null;
+	return cart;
+}
+
+/**
+ * Clamp a quantity into the range allowed for an item
+ * @param quantity - The requested quantity
+ * @param maxQuantity - The maximum quantity, 0 when sold out, undefined when unlimited
+ * @returns A whole number between 1 and maxQuantity, or 0 when nothing can be added
+ */
+export function clampQuantity(quantity: number, maxQuantity?: number): number {
+	if (maxQuantity === 0) return 0;
+
+	let result = Number.isFinite(quantity) ? Math.floor(quantity) : 1;
+	if (maxQuantity !== undefined) {
+		result = Math.min(result, maxQuantity);
+	}
+	return Math.max(result, 1);
+}
+
+function normalizeItems(items: InterestedItem[]): InterestedItem[] {
+	// Entries that sold out keep the quantity they were added with, which can no longer change
+	return items.map(item => (item.maxQuantity === 0 ? item : { ...item, quantity: clampQuantity(item.quantity ?? 1, item.maxQuantity) }));
+}
+
+const listeners = new Set<InterestedItemsListener>();
+let listeningToOtherTabs = false;
+
+function notifyListeners(fromOtherTab = false): void {
+	const items = getInterestedItems();
+	listeners.forEach(listener => {
+		try {
+			listener(items, fromOtherTab);
+		} catch (error) {
+			console.error("Error in interested items listener:", error);
+		}
+	});
+}
+
+/**
+ * Follow changes of the interest list, in this tab and in other tabs
+ * @param listener - Called with the new list after every change
+ * @returns A function that stops calling the listener
+ */
+export function subscribeInterestedItems(listener: InterestedItemsListener): () => void {
+	listeners.add(listener);
+
+	// Other tabs write to the same localStorage key, which fires a storage event here
+	if (!listeningToOtherTabs && typeof window !== "undefined") {
+		window.addEventListener("storage", event => {
+			if (event.key === CART_STORAGE_KEY || event.key === null) notifyListeners(true);
+		});
+		listeningToOtherTabs = true;
+	}
+
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+function writeItems(items: InterestedItem[]): void {
+	const cart: StoredCart = { version: CART_STORAGE_VERSION, items };
+	localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cart));
+}
+
+export function getInterestedItems(): InterestedItem[] {
+	if (typeof window === "undefined") return [];
+
+	try {
+		const saved = localStorage.getItem(CART_STORAGE_KEY);
+		if (!saved) return [];
+
+		const data = JSON.parse(saved);
+		const cart = migrateStoredCart(data);
+		if (!cart) {
+			console.error("Ignoring interested items saved in an unknown format:", data);
+			return [];
+		}
+
+		// Keep the migrated list, so the next read does not migrate it again
+		if (Array.isArray(data) || data.version !== CART_STORAGE_VERSION) writeItems(cart.items);
+		// Sub-item IDs can also change after the version 3 migration, when an ID is filled in on the sheet
+		return normalizeItems(cart.items.map(item => ({ ...item, id: migrateLegacyItemId(item.id) })));
+	} catch (error) {
+		console.error("Error getting interested items from localStorage:", error);
+		return [];
+	}
+}
+
+export function addInterestedItem(item: InterestedItem): boolean {
+	if (typeof window === "undefined") return false;
+
+	try {
+		const items = getInterestedItems();
+		if (items.some(i => i.id === item.id)) return false;
+
+		const quantity = clampQuantity(item.quantity ?? 1, item.maxQuantity);
+		// clampQuantity returns 0 only for a maxQuantity of 0, i.e. a sold-out item
+		if (quantity === 0) return false;
+
+		items.push({ ...item, quantity });
+		writeItems(items);
+		notifyListeners();
+		return true;
+	} catch (error) {
+		console.error("Error adding interested item to localStorage:", error);
+		return false;
+	}
+}
+
+export function removeInterestedItem(itemId: string): boolean {
+	return removeInterestedItems(item => item.id === itemId).length > 0;
+}
+
+/**
+ * Remove every item that matches, e.g. all tiers before another tier is picked
+ * @param predicate - Returns true for the items to remove
+ * @returns The removed items
+ */
+export function removeInterestedItems(predicate: (item: InterestedItem) => boolean): InterestedItem[] {
+	if (typeof window === "undefined") return [];
+
+	try {
+		const items = getInterestedItems();
+		const removed = items.filter(predicate);
+		if (removed.length === 0) return [];
+
+		writeItems(items.filter(item => !predicate(item)));
+		notifyListeners();
+		return removed;
+	} catch (error) {
+		console.error("Error removing interested items from localStorage:", error);
+		return [];
+	}
+}
+
+/**
+ * Replace the whole interest list, e.g. when restoring a shared list
+ * @param items - The new list; quantities are clamped to each item's maximum
+ * @returns true if saved, false otherwise
+ */
+export function setInterestedItems(items: InterestedItem[]): boolean {
+	if (typeof window === "undefined") return false;
+
+	try {
+		writeItems(normalizeItems(items));
+		notifyListeners();
+		return true;
+	} catch (error) {
+		console.error("Error saving interested items to localStorage:", error);
+		return false;
+	}
+}
+
+/**
+ * Set the quantity of an item in the interest list
+ * @param itemId - The item ID
+ * @param quantity - The new quantity, clamped to the item's maximum
+ * @returns true if the item exists in the list and is not sold out, false otherwise
+ */
+export function updateInterestedItemQuantity(itemId: string, quantity: number): boolean {
+	if (typeof window === "undefined") return false;
+
+	try {
+		const items = getInterestedItems();
+		const item = items.find(i => i.id === itemId);
+		if (!item) return false;
+
+		const nextQuantity = clampQuantity(quantity, item.maxQuantity);
+		if (nextQuantity === 0) return false;
+		if (nextQuantity === item.quantity) return true;
+
+		item.quantity = nextQuantity;
+		writeItems(items);
+		notifyListeners();
+		return true;
+	} catch (error) {
+		console.error("Error updating interested item quantity in localStorage:", error);
+		return false;
+	}
+}
+
+/**
+ * Sum the numeric prices of the interest list, multiplied by quantity
+ * @param items - The interested items
+ * @returns Total in TWD; plan-included items count as 0
+ */
+export function getInterestedItemsTotal(items: InterestedItem[]): number {
+	return items.reduce((sum, item) => sum + parsePrice(item.price) * (item.quantity ?? 1), 0);
+}
+
+export function isItemInterested(itemId: string): boolean {
+	return getInterestedItems().some(item => item.id === itemId);
+}
+
+export function clearInterestedItems(): boolean {
+	if (typeof window === "undefined") return false;
+
+	try {
+		localStorage.removeItem(CART_STORAGE_KEY);
+		notifyListeners();
+		return true;
+	} catch (error) {
+		console.error("Error clearing interested items from localStorage:", error);
+		return false;
+	}
+}
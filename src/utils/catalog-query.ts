@@ -0,0 +1,220 @@
+/**
+ * Search, filter and sort the item catalog on the client
+ *
+ * Entries are built from the localized items at build time and embedded in the page, so
+ * filtering never needs to read card markup. The query round-trips through the URL query
+ * string so a filtered view can be bookmarked or shared.
+ */
+
+import { isInactive } from "./item-status.js";
+import { isItemInAnyPlan } from "./plan-helper.js";
+import { parseSaleTime } from "./deadline.js";
+import type { ItemData } from "./items-loader.js";
+
+export const CATALOG_SORTS = ["recommended", "price_asc", "price_desc", "deadline"] as const;
+export type CatalogSort = (typeof CATALOG_SORTS)[number];
+
+export const CATALOG_CATEGORIES = ["all", "talent_recruitment", "brand_exposure", "product_promotion"] as const;
+export type CatalogCategory = (typeof CATALOG_CATEGORIES)[number];
+
+export interface CatalogEntry {
+	id: string;
+	text: string; // Normalized localized names and descriptions, for free-text search
+	type: string; // Type as written in the sheet, e.g. "數位媒體曝光"
+	unit: string; // Unit code, e.g. "booth"
+	price: number | null; // Lowest TWD price of the item or its sub-items, null when not sold separately
+	deadline: string;
+	start_time: string;
+	remaining: string;
+	sub: { remaining: string }[];
+	inPlan: boolean;
+	orders: Record<CatalogCategory, number>;
+}
+
+export interface CatalogQuery {
+	q: string;
+	category: CatalogCategory;
+	types: string[];
+	units: string[];
+	minPrice: number | null;
+	maxPrice: number | null;
+	available: boolean; // Hide sold-out, expired and not yet open items
+	inPlan: boolean; // Only items included in a sponsorship tier
+	sort: CatalogSort;
+}
+
+export const DEFAULT_CATALOG_QUERY: CatalogQuery = {
+	q: "",
+	category: "all",
+	types: [],
+	units: [],
+	minPrice: null,
+	maxPrice: null,
+	available: false,
+	inPlan: false,
+	sort: "recommended"
+};
+
+/**
+ * Normalize text for matching: full-width forms folded, case ignored
+ * @param text - Text to normalize
+ */
+export function normalizeSearchText(text: string): string {
+	return text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Build the catalog entry of an item
+ * @param item - Item loaded in the page language
+ */
+export function buildCatalogEntry(item: ItemData): CatalogEntry {
+	const prices = [item.price_twd, ...item.sub.map(sub => sub.price_twd)].filter((price): price is number => price !== null);
+	const text = [item.name, item.type, item.global_description, item.talent_recruitment, item.brand_exposure, item.product_promotion, ...item.sub.map(sub => sub.name)].join(" ");
+
+	return {
+		id: item.id,
+		text: normalizeSearchText(text),
+		type: item.type_key,
+		unit: item.unit,
+		price: prices.length > 0 ? Math.min(...prices) : null,
+		deadline: item.deadline,
+		start_time: item.start_time,
+		remaining: item.remaining,
+		sub: item.sub.map(sub => ({ remaining: sub.remaining })),
+		inPlan: isItemInAnyPlan(item.id),
+		orders: {
+			all: item.order,
+			talent_recruitment: item.talent_recruitment_order,
+			brand_exposure: item.brand_exposure_order,
+			product_promotion: item.product_promotion_order
+		}
+	};
+}
+
+/**
+ * Check if an entry matches the query filters
+ * @param entry - Catalog entry
+ * @param query - Search and filters; the sort is ignored
+ */
+export function matchesCatalogQuery(entry: CatalogEntry, query: CatalogQuery): boolean {
+	const terms = normalizeSearchText(query.q).split(" ").filter(Boolean);
+	if (!terms.every(term => entry.text.includes(term))) return false;
+
+	if (query.types.length > 0 && !query.types.includes(entry.type)) return false;
+	if (query.units.length > 0 && !query.units.includes(entry.unit)) return false;
+
+	// Items without a standalone price never match a price range
+	if (query.minPrice !== null || query.maxPrice !== null) {
+		if (entry.price === null) return false;
+		if (query.minPrice !== null && entry.price < query.minPrice) return false;
+		if (query.maxPrice !== null && entry.price > query.maxPrice) return false;
+	}
+
+	if (query.available && isInactive(entry)) return false;
+	if (query.inPlan && !entry.inPlan) return false;
+
+	return true;
+}
+
+/**
+ * Sort entries; inactive items always go last, as in the default card order
+ * @param entries - Catalog entries
+ * @param query - Sort and category (recommended order follows the selected goal)
+ */
+export function sortCatalogEntries(entries: CatalogEntry[], query: CatalogQuery): CatalogEntry[] {
+	const inactive = new Map(entries.map(entry => [entry.id, isInactive(entry)]));
+	// Items without an order for a goal go after the ones the goal recommends
+	const order = (entry: CatalogEntry) => entry.orders[query.category] || (query.category === "all" ? 0 : Infinity);
+	const closesAt = (entry: CatalogEntry) => parseSaleTime(entry.deadline, "end")?.getTime() ?? Infinity;
+
+	const compare: Record<CatalogSort, (a: CatalogEntry, b: CatalogEntry) => number> = {
+		recommended: (a, b) => order(a) - order(b),
+		// Unpriced items go last in both directions
+		price_asc: (a, b) => (a.price ?? Infinity) - (b.price ?? Infinity),
+		price_desc: (a, b) => (b.price ?? -Infinity) - (a.price ?? -Infinity),
+		deadline: (a, b) => closesAt(a) - closesAt(b)
+	};
+
+	return [...entries].sort((a, b) => {
+		const inactiveDiff = Number(inactive.get(a.id)) - Number(inactive.get(b.id));
+		if (inactiveDiff !== 0) return inactiveDiff;
+
+		const diff = compare[query.sort](a, b);
+		// NaN comes from Infinity - Infinity; keep the recommended order for ties
+		return Number.isNaN(diff) || diff === 0 ? order(a) - order(b) || 0 : diff;
+	});
+}
+
+/**
+ * Filter and sort the catalog
+ * @param entries - Catalog entries
+ * @param query - Search, filters and sort
+ * @returns Matching entries in display order
+ */
+export function runCatalogQuery(entries: CatalogEntry[], query: CatalogQuery): CatalogEntry[] {
+	return sortCatalogEntries(
+		entries.filter(entry => matchesCatalogQuery(entry, query)),
+		query
+	);
+}
+
+function parsePriceParam(value: string | null): number | null {
+	if (value === null || value.trim() === "") return null;
+	const price = parseInt(value, 10);
+	return Number.isNaN(price) || price < 0 ? null : price;
+}
+
+function parseListParam(value: string | null): string[] {
+	return value ? value.split(",").filter(Boolean) : [];
+}
+
+/**
+ * Read the catalog query from the URL
+ * @param params - Query string, e.g. ?q=攤位&type=現場實體曝光&max=50000&available=1&sort=price_asc
+ */
+export function parseCatalogQuery(params: URLSearchParams): CatalogQuery {
+	const sort = params.get("sort") as CatalogSort | null;
+	const category = params.get("category") as CatalogCategory | null;
+
+	return {
+		q: params.get("q") ?? "",
+		category: category && CATALOG_CATEGORIES.includes(category) ? category : DEFAULT_CATALOG_QUERY.category,
+		types: parseListParam(params.get("type")),
+		units: parseListParam(params.get("unit")),
+		minPrice: parsePriceParam(params.get("min")),
+		maxPrice: parsePriceParam(params.get("max")),
+		available: params.get("available") === "1",
+		inPlan: params.get("plan") === "1",
+		sort: sort && CATALOG_SORTS.includes(sort) ? sort : DEFAULT_CATALOG_QUERY.sort
+	};
+}
+
+/**
+ * Write the catalog query into URL parameters, leaving out defaults
+ * @param query - Catalog query
+ * @param params - Existing parameters to keep, e.g. ones owned by other features
+ */
+export function serializeCatalogQuery(query: CatalogQuery, params: URLSearchParams = new URLSearchParams()): URLSearchParams {
+	const result = new URLSearchParams(params);
+	const set = (key: string, value: string, isDefault: boolean) => (isDefault ? result.delete(key) : result.set(key, value));
+
+	set("q", query.q.trim(), query.q.trim() === "");
+	set("category", query.category, query.category === DEFAULT_CATALOG_QUERY.category);
+	set("type", query.types.join(","), query.types.length === 0);
+	set("unit", query.units.join(","), query.units.length === 0);
+	set("min", String(query.minPrice), query.minPrice === null);
+	set("max", String(query.maxPrice), query.maxPrice === null);
+	set("available", "1", !query.available);
+	set("plan", "1", !query.inPlan);
+	set("sort", query.sort, query.sort === DEFAULT_CATALOG_QUERY.sort);
+
+	return result;
+}
+
+/**
+ * Check if any filter or search is active, i.e. some items may be hidden
+ * @param query - Catalog query
+ */
+export function hasActiveFilters(query: CatalogQuery): boolean {
+	return query.q.trim() !== "" || query.types.length > 0 || query.units.length > 0 || query.minPrice !== null || query.maxPrice !== null || query.available || query.inPlan;
+}
@@ -0,0 +1,74 @@
+/**
+ * Client-side countdown labels like "Closes in 3 days" on item cards and popups
+ *
+ * Markup: an element with data-countdown, data-deadline, data-start-time and the localized
+ * templates data-opens-label / data-closes-label containing "{time}". The element stays
+ * hidden unless the item opens later or closes within COUNTDOWN_DAYS.
+ */
+
+import { formatRelativeTime, getSaleStatus, getSaleWindow } from "./deadline.js";
+
+export const COUNTDOWN_DAYS = 14;
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+let refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Get the countdown text for an item, or null when no countdown should be shown
+ * @param times - The item's deadline and opening time
+ * @param labels - Localized templates, e.g. { opens: "Opens {time}", closes: "Closes {time}" }
+ * @param locale - Page language used for the relative time
+ * @param now - Current time, for testing
+ */
+export function getCountdownText(times: { deadline?: string; startTime?: string }, labels: { opens: string; closes: string }, locale: string, now: Date = new Date()): string | null {
+	const status = getSaleStatus(times, now);
+	const { opensAt, closesAt } = getSaleWindow(times);
+
+	if (status === "upcoming" && opensAt) {
+		return labels.opens.replace("{time}", formatRelativeTime(opensAt, locale, now));
+	}
+
+	if (status === "open" && closesAt && closesAt.getTime() - now.getTime() <= COUNTDOWN_DAYS * 24 * 60 * 60 * 1000) {
+		return labels.closes.replace("{time}", formatRelativeTime(closesAt, locale, now));
+	}
+
+	return null;
+}
+
+/**
+ * Update every countdown element on the page
+ * @param root - Where to look for countdown elements
+ */
+export function updateCountdowns(root: ParentNode = document): void {
+	const locale = document.documentElement.lang || "zh-Hant";
+	const now = new Date();
+
+	root.querySelectorAll<HTMLElement>("[data-countdown]").forEach(element => {
+		const text = getCountdownText(
+			{
+				deadline: element.getAttribute("data-deadline") || "",
+				startTime: element.getAttribute("data-start-time") || ""
+			},
+			{
+				opens: element.getAttribute("data-opens-label") || "{time}",
+				closes: element.getAttribute("data-closes-label") || "{time}"
+			},
+			locale,
+			now
+		);
+
+		element.textContent = text ?? "";
+		element.hidden = text === null;
+	});
+}
+
+/**
+ * Render the countdowns and keep them current, refreshing once a minute
+ */
+export function initializeCountdowns(): void {
+	updateCountdowns();
+
+	if (refreshTimer === null) {
+		refreshTimer = setInterval(() => updateCountdowns(), REFRESH_INTERVAL_MS);
+	}
+}
@@ -0,0 +1,730 @@
+/**
+ * Schema for src/data/item.json, src/data/plan.json, src/data/venue.json and src/data/stats.json
+ *
+ * The raw interfaces describe the JSON exactly as written by scripts/fetch-and-merge.js
+ * (venue.json and stats.json are edited by hand).
+ * The parse functions check every field and convert it into real types, collecting all
+ * problems into a single DataSchemaError so the build fails with a readable report.
+ */
+
+import { parseSaleTime } from "./deadline.js";
+import { DEFAULT_LOCALE, LOCALES } from "./locales.js";
+
+export interface ImageMetaRaw {
+	width: number; // Size of the full-size variant (the "image" file)
+	height: number;
+	widths: number[]; // Widths of every variant, ascending; the last one is the full size
+	placeholder: string; // Tiny blurred WebP data URL shown while the image loads
+}
+
+export interface SubItemRaw {
+	id: string; // Unique within the item and kept when rows are reordered; cart IDs are "<item ID>-sub-<id>"
+	name_zh: string;
+	name_en: string;
+	price: string;
+	remaining: string;
+	image: string;
+	image_meta: ImageMetaRaw | null; // null without an image, or when it failed to download
+	image_description_zh: string;
+	image_description_en: string;
+	start_time: string;
+}
+
+export interface ItemDataRaw {
+	name_zh: string;
+	name_en: string;
+	order: number;
+	quantity: string;
+	remaining: string;
+	unit: string;
+	type: string;
+	global_description_zh: string;
+	global_description_en: string;
+	talent_recruitment_zh: string;
+	talent_recruitment_en: string;
+	brand_exposure_zh: string;
+	brand_exposure_en: string;
+	product_promotion_zh: string;
+	product_promotion_en: string;
+	image: string;
+	image_meta: ImageMetaRaw | null;
+	image_description_zh: string;
+	image_description_en: string;
+	price: string;
+	deadline: string;
+	start_time: string;
+	placement: string[]; // IDs of the venue zones the item is placed in, e.g. ["lobby"]; empty for items without a place
+	talent_recruitment_order: number;
+	brand_exposure_order: number;
+	product_promotion_order: number;
+	sub: SubItemRaw[];
+}
+
+export interface PlanBenefitRaw {
+	item_id: string;
+	item_name: string;
+	quantity: string;
+}
+
+export interface PlanDisplayRaw {
+	color: string; // Hex color of the tier heading, "" to use the default palette
+	badge_zh: string; // Short label shown above the tier name, e.g. "最受歡迎"
+	badge_en: string;
+	limit: number | null; // Number of sponsors the tier is offered to, null when unlimited
+	remaining: number | null; // Slots left, null when not tracked
+}
+
+export interface PlanRaw {
+	id: string;
+	name_zh: string;
+	name_en: string;
+	price: string;
+	order: number;
+	display: PlanDisplayRaw;
+	benefits: PlanBenefitRaw[];
+}
+
+export interface VenueShapeRaw {
+	x: number; // Rectangle in the coordinates of the floor, see VenueFloorRaw
+	y: number;
+	width: number;
+	height: number;
+}
+
+export interface VenueFloorRaw {
+	id: string;
+	name_zh: string;
+	name_en: string;
+	width: number; // Size of the floor's map; shapes on it use these coordinates
+	height: number;
+}
+
+export interface VenueRoomRaw {
+	code: string; // Code used in item descriptions, e.g. "R0" or "lounge"
+	floor: string;
+	name_zh: string;
+	name_en: string;
+	description_zh: string;
+	description_en: string;
+	capacity: number | null; // Seats, null for rooms without fixed seating
+	photo: string; // File name in public/venue
+	shape: VenueShapeRaw;
+}
+
+export interface VenueZoneRaw {
+	id: string; // Used in the placement of items
+	room?: string; // Code of the room the zone is in
+	floor?: string; // Required for zones outside a room
+	name_zh: string;
+	name_en: string;
+	shape?: VenueShapeRaw; // Defaults to the whole room
+}
+
+export interface VenueRaw {
+	floors: VenueFloorRaw[];
+	rooms: VenueRoomRaw[];
+	zones: VenueZoneRaw[];
+}
+
+export interface StatsMetricRaw {
+	unit: "count" | "percent"; // Number of people, or percentages adding up to 100
+	keys: string[]; // Categories in display order; labels live in the i18n files
+}
+
+export interface StatsGroupRaw {
+	metric: string;
+	keys: string[]; // Categories added up, e.g. every kind of student
+}
+
+export type StatsDistributionRaw = Record<string, number>; // Category → value, missing categories count as 0
+
+export interface StatsYearRaw {
+	year: number;
+	distributions: Record<string, StatsDistributionRaw>; // Keyed by metric; metrics not surveyed that year are left out
+	audience: Record<string, Record<string, number>>; // Platform → followers, reach and views
+	approximate: string[]; // Audience figures that are estimates, e.g. "instagram.followers"
+}
+
+export interface StatsRaw {
+	metrics: Record<string, StatsMetricRaw>;
+	groups: Record<string, StatsGroupRaw>;
+	years: StatsYearRaw[];
+}
+
+// Written by scripts/fetch-and-merge.js next to item.json and polled by the site, see utils/availability.ts
+export interface SubItemAvailabilityRaw {
+	id: string;
+	remaining: string;
+	start_time: string;
+	version: string; // Hash of the fields above
+}
+
+export interface ItemAvailabilityRaw {
+	remaining: string;
+	deadline: string;
+	start_time: string;
+	version: string; // Hash of the fields above and the sub-item versions
+	sub: SubItemAvailabilityRaw[];
+}
+
+export interface AvailabilityRaw {
+	version: string; // Hash of all item versions
+	items: Record<string, ItemAvailabilityRaw>;
+}
+
+// Must match the values of "units" in scripts/sheet-mapping.json
+export const UNITS = ["copy", "booth", "ticket", "agenda", "ad", "other", "second", "time", "type", "piece"] as const;
+export type Unit = (typeof UNITS)[number];
+
+export type Stock = { kind: "limited"; remaining: number } | { kind: "unlimited" };
+
+export interface SubItemRecord {
+	index: number;
+	id: string;
+	priceTWD: number | null;
+	stock: Stock;
+	opensAt: string | null; // ISO timestamp
+}
+
+export interface ItemRecord {
+	id: string;
+	priceTWD: number | null; // null when the item is only sold through sub-items or plans
+	stock: Stock;
+	deadline: string | null; // ISO timestamp of the moment sales close, in UTC
+	opensAt: string | null; // ISO timestamp, null when the item opens with the shop
+	unit: Unit | null;
+	placement: string[];
+	sub: SubItemRecord[];
+	raw: ItemDataRaw;
+}
+
+export interface PlanRecord {
+	id: string;
+	priceTWD: number;
+	order: number;
+	raw: PlanRaw;
+}
+
+export interface VenueZoneRecord {
+	id: string;
+	floor: string;
+	room: string | null;
+	shape: VenueShapeRaw;
+	raw: VenueZoneRaw;
+}
+
+export interface VenueRecord {
+	floors: VenueFloorRaw[];
+	rooms: VenueRoomRaw[];
+	zones: Record<string, VenueZoneRecord>;
+}
+
+export interface DataSchemaIssue {
+	file: "item.json" | "plan.json" | "venue.json" | "stats.json" | "availability.json";
+	id: string;
+	field: string;
+	value: unknown;
+	message: string;
+}
+
+export class DataSchemaError extends Error {
+	issues: DataSchemaIssue[];
+
+	constructor(issues: DataSchemaIssue[]) {
+		const lines = issues.map(issue => `  - ${issue.file} › ${issue.id} › ${issue.field}: ${issue.message} (got ${JSON.stringify(issue.value)})`);
+		super(`Found ${issues.length} invalid field(s) in src/data:\n${lines.join("\n")}`);
+		this.name = "DataSchemaError";
+		this.issues = issues;
+	}
+}
+
+/**
+ * Parse a display price into TWD
+ * @param value - Price like "$40,000" or "NT$179,000"; empty means no price
+ * @returns The amount, null when empty, or undefined when malformed
+ */
+export function parsePriceTWD(value: string): number | null | undefined {
+	const trimmed = value.trim();
+	if (trimmed === "") return null;
+
+	const match = trimmed.match(/^(?:NT)?\$\s*(\d{1,3}(?:,\d{3})*|\d+)$/);
+	return match ? parseInt(match[1].replace(/,/g, ""), 10) : undefined;
+}
+
+/**
+ * Parse a remaining count
+ * @param value - A whole number, or empty when stock is not tracked
+ * @returns The stock, or undefined when malformed
+ */
+export function parseStock(value: string): Stock | undefined {
+	const trimmed = value.trim();
+	if (trimmed === "") return { kind: "unlimited" };
+	return /^\d+$/.test(trimmed) ? { kind: "limited", remaining: parseInt(trimmed, 10) } : undefined;
+}
+
+/**
+ * Parse a deadline in the sheet's "YYYY/MM/DD" or "YYYY/MM/DD HH:mm" format (Taiwan time)
+ * @param value - Deadline string, empty when there is no deadline
+ * @returns ISO timestamp of the closing moment, null when empty, or undefined when malformed
+ */
+export function parseDeadline(value: string): string | null | undefined {
+	const closesAt = parseSaleTime(value, "end");
+	return closesAt ? closesAt.toISOString() : closesAt;
+}
+
+/**
+ * Parse an opening time in the same formats as deadlines
+ * @param value - Opening time, empty when the item opens with the shop
+ * @returns ISO timestamp of the opening moment, null when empty, or undefined when malformed
+ */
+export function parseStartTime(value: string): string | null | undefined {
+	const opensAt = parseSaleTime(value, "start");
+	return opensAt ? opensAt.toISOString() : opensAt;
+}
+
+function isUnit(value: string): value is Unit {
+	return (UNITS as readonly string[]).includes(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+	return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Check the image_meta of an item or sub-item
+ * @returns A problem description, or null when valid
+ */
+function checkImageMeta(meta: unknown): string | null {
+	if (meta === null) return null;
+	if (!isObject(meta)) return "expected { width, height, widths, placeholder } or null";
+
+	if (!isPositiveInteger(meta.width) || !isPositiveInteger(meta.height)) return "expected a positive whole width and height";
+	if (!Array.isArray(meta.widths) || meta.widths.length === 0 || !meta.widths.every(isPositiveInteger)) return "expected widths to list the variant widths";
+	if (meta.widths[meta.widths.length - 1] !== meta.width) return `expected the last of widths to be the full width ${meta.width}`;
+	if (typeof meta.placeholder !== "string" || !meta.placeholder.startsWith("data:image/")) return "expected placeholder to be an image data URL";
+	return null;
+}
+
+/**
+ * Check a rectangle of the venue map
+ * @param floor - The floor it is drawn on, to check that it fits
+ * @returns A problem description, or null when valid
+ */
+function checkVenueShape(shape: unknown, floor: VenueFloorRaw | undefined): string | null {
+	if (!isObject(shape) || !(["x", "y", "width", "height"] as const).every(field => typeof shape[field] === "number" && (shape[field] as number) >= 0)) {
+		return "expected { x, y, width, height } with non-negative numbers";
+	}
+	if (floor && ((shape.x as number) + (shape.width as number) > floor.width || (shape.y as number) + (shape.height as number) > floor.height)) {
+		return `expected to fit in the ${floor.width} × ${floor.height} map of floor "${floor.id}"`;
+	}
+	return null;
+}
+
+/**
+ * Validate and convert the contents of venue.json
+ * @param data - The parsed JSON
+ * @returns Floors and rooms as written, and zones keyed by ID with their floor and shape filled in
+ * @throws DataSchemaError listing every invalid field
+ */
+export function parseVenueData(data: unknown): VenueRecord {
+	const issues: DataSchemaIssue[] = [];
+	const report = (id: string, field: string, value: unknown, message: string) => issues.push({ file: "venue.json", id, field, value, message });
+
+	if (!isObject(data) || !Array.isArray(data.floors) || !Array.isArray(data.rooms) || !Array.isArray(data.zones)) {
+		throw new DataSchemaError([{ file: "venue.json", id: "(root)", field: "(root)", value: typeof data, message: "expected { floors, rooms, zones } arrays" }]);
+	}
+
+	const floors = new Map<string, VenueFloorRaw>();
+	data.floors.forEach((floor, index) => {
+		const id = `floor ${isObject(floor) && typeof floor.id === "string" ? floor.id : index}`;
+		if (!isObject(floor) || !(["id", "name_zh", "name_en"] as const).every(field => typeof floor[field] === "string")) {
+			report(id, "(floor)", floor, "expected { id, name_zh, name_en, width, height }");
+			return;
+		}
+		if (!isPositiveInteger(floor.width) || !isPositiveInteger(floor.height)) report(id, "width", [floor.width, floor.height], "expected a positive whole width and height");
+		if (floors.has(floor.id as string)) report(id, "id", floor.id, "floor ID is used twice");
+		floors.set(floor.id as string, floor as unknown as VenueFloorRaw);
+	});
+
+	const rooms = new Map<string, VenueRoomRaw>();
+	data.rooms.forEach((room, index) => {
+		const id = `room ${isObject(room) && typeof room.code === "string" ? room.code : index}`;
+		if (!isObject(room)) {
+			report(id, "(room)", room, "expected an object");
+			return;
+		}
+
+		const invalidStrings = (["code", "floor", "name_zh", "name_en", "description_zh", "description_en", "photo"] as const).filter(field => typeof room[field] !== "string");
+		invalidStrings.forEach(field => report(id, field, room[field], "expected a string"));
+		if (invalidStrings.length > 0) return;
+
+		const raw = room as unknown as VenueRoomRaw;
+		if (rooms.has(raw.code)) report(id, "code", raw.code, "room code is used twice");
+		if (!floors.has(raw.floor)) report(id, "floor", raw.floor, "unknown floor ID");
+		if (raw.capacity !== null && !isPositiveInteger(raw.capacity)) report(id, "capacity", raw.capacity, "expected a positive whole number or null");
+
+		const shapeProblem = checkVenueShape(raw.shape, floors.get(raw.floor));
+		if (shapeProblem) report(id, "shape", raw.shape, shapeProblem);
+		rooms.set(raw.code, raw);
+	});
+
+	const zones: Record<string, VenueZoneRecord> = {};
+	data.zones.forEach((zone, index) => {
+		const id = `zone ${isObject(zone) && typeof zone.id === "string" ? zone.id : index}`;
+		if (!isObject(zone) || !(["id", "name_zh", "name_en"] as const).every(field => typeof zone[field] === "string")) {
+			report(id, "(zone)", zone, "expected { id, name_zh, name_en } strings");
+			return;
+		}
+
+		const raw = zone as unknown as VenueZoneRaw;
+		const room = raw.room === undefined ? undefined : rooms.get(raw.room);
+		const floor = raw.floor ?? room?.floor;
+
+		if (!/^[a-z0-9_-]+$/.test(raw.id)) report(id, "id", raw.id, 'expected lowercase letters, digits, "_" and "-"');
+		else if (zones[raw.id]) report(id, "id", raw.id, "zone ID is used twice");
+		if (raw.room !== undefined && !room) report(id, "room", raw.room, "unknown room code");
+		if (raw.room === undefined && raw.floor === undefined) report(id, "floor", raw.floor, "expected a floor or a room");
+		if (floor !== undefined && !floors.has(floor)) report(id, "floor", floor, "unknown floor ID");
+		if (room && raw.floor !== undefined && raw.floor !== room.floor) report(id, "floor", raw.floor, `expected the floor of room ${room.code}`);
+		if (raw.shape === undefined && !room) report(id, "shape", raw.shape, "expected a shape for a zone outside a room");
+
+		const shape = raw.shape ?? room?.shape;
+		const shapeProblem = raw.shape === undefined ? null : checkVenueShape(raw.shape, floor ? floors.get(floor) : undefined);
+		if (shapeProblem) report(id, "shape", raw.shape, shapeProblem);
+
+		if (floor && shape) zones[raw.id] = { id: raw.id, floor, room: room?.code ?? null, shape, raw };
+	});
+
+	if (issues.length > 0) throw new DataSchemaError(issues);
+	return { floors: [...floors.values()], rooms: [...rooms.values()], zones };
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(entry => typeof entry === "string");
+}
+
+/**
+ * Validate the contents of stats.json
+ * @param data - The parsed JSON
+ * @returns The statistics, with years in ascending order
+ * @throws DataSchemaError listing every invalid field
+ */
+export function parseStatsData(data: unknown): StatsRaw {
+	const issues: DataSchemaIssue[] = [];
+	const report = (id: string, field: string, value: unknown, message: string) => issues.push({ file: "stats.json", id, field, value, message });
+
+	if (!isObject(data) || !isObject(data.metrics) || !isObject(data.groups) || !Array.isArray(data.years)) {
+		throw new DataSchemaError([{ file: "stats.json", id: "(root)", field: "(root)", value: typeof data, message: "expected { metrics, groups, years }" }]);
+	}
+
+	const metrics = data.metrics as Record<string, unknown>;
+	for (const [id, metric] of Object.entries(metrics)) {
+		if (!isObject(metric) || (metric.unit !== "count" && metric.unit !== "percent") || !isStringArray(metric.keys) || metric.keys.length === 0) {
+			report(`metric ${id}`, "(metric)", metric, 'expected { unit: "count" | "percent", keys: [...] }');
+		}
+	}
+	const metricKeys = (metric: string): string[] => (isObject(metrics[metric]) && isStringArray(metrics[metric].keys) ? metrics[metric].keys : []);
+
+	for (const [id, group] of Object.entries(data.groups)) {
+		if (!isObject(group) || typeof group.metric !== "string" || !isStringArray(group.keys)) {
+			report(`group ${id}`, "(group)", group, "expected { metric, keys }");
+		} else if (!metrics[group.metric]) {
+			report(`group ${id}`, "metric", group.metric, "unknown metric");
+		} else {
+			group.keys.filter(key => !metricKeys(group.metric as string).includes(key)).forEach(key => report(`group ${id}`, "keys", key, `not a category of ${group.metric}`));
+		}
+	}
+
+	const years = new Set<number>();
+	data.years.forEach((entry, index) => {
+		const id = `year ${isObject(entry) && typeof entry.year === "number" ? entry.year : index}`;
+		if (!isObject(entry) || !Number.isInteger(entry.year) || !isObject(entry.distributions) || !isObject(entry.audience) || !isStringArray(entry.approximate)) {
+			report(id, "(year)", entry, "expected { year, distributions, audience, approximate }");
+			return;
+		}
+
+		if (years.has(entry.year as number)) report(id, "year", entry.year, "year is listed twice");
+		years.add(entry.year as number);
+
+		for (const [metric, distribution] of Object.entries(entry.distributions)) {
+			const field = `distributions.${metric}`;
+			if (!metrics[metric]) {
+				report(id, field, metric, "unknown metric");
+				continue;
+			}
+			if (!isObject(distribution) || !Object.values(distribution).every(value => typeof value === "number" && value >= 0)) {
+				report(id, field, distribution, "expected non-negative numbers keyed by category");
+				continue;
+			}
+
+			Object.keys(distribution)
+				.filter(key => !metricKeys(metric).includes(key))
+				.forEach(key => report(id, field, key, `unknown category, expected one of ${metricKeys(metric).join(", ")}`));
+			const total = Object.values(distribution as Record<string, number>).reduce((sum, value) => sum + value, 0);
+			if ((metrics[metric] as StatsMetricRaw).unit === "percent" && Math.abs(total - 100) > 0.5) report(id, field, total, "expected percentages adding up to 100");
+		}
+
+		for (const [platform, figures] of Object.entries(entry.audience)) {
+			if (!isObject(figures) || !Object.values(figures).every(value => typeof value === "number" && value >= 0)) {
+				report(id, `audience.${platform}`, figures, "expected non-negative numbers");
+			}
+		}
+	});
+
+	if (issues.length > 0) throw new DataSchemaError(issues);
+	const stats = data as unknown as StatsRaw;
+	return { ...stats, years: [...stats.years].sort((a, b) => a.year - b.year) };
+}
+
+/**
+ * Name the fields written once per locale, e.g. name_zh and name_en
+ * @param fields - Field names without the locale suffix
+ * @returns One field name per field and locale of the registry (see locales.ts)
+ */
+function getLocalizedFieldNames(fields: string[]): string[] {
+	return fields.flatMap(field => LOCALES.map(locale => `${field}_${locale.field}`));
+}
+
+const ITEM_STRING_FIELDS = [
+	"quantity",
+	"remaining",
+	"unit",
+	"type",
+	"image",
+	"price",
+	"deadline",
+	"start_time",
+	...getLocalizedFieldNames(["name", "global_description", "talent_recruitment", "brand_exposure", "product_promotion", "image_description"])
+];
+
+const ITEM_NUMBER_FIELDS = ["order", "talent_recruitment_order", "brand_exposure_order", "product_promotion_order"] as const;
+
+const SUB_ITEM_STRING_FIELDS = ["id", "price", "remaining", "image", "start_time", ...getLocalizedFieldNames(["name", "image_description"])];
+
+/**
+ * Validate and convert the contents of item.json
+ * @param data - The parsed JSON
+ * @param venue - Validated venue, used to check placement zone IDs
+ * @returns Typed item records keyed by item ID
+ * @throws DataSchemaError listing every invalid field
+ */
+export function parseItemsData(data: unknown, venue: VenueRecord): Record<string, ItemRecord> {
+	const issues: DataSchemaIssue[] = [];
+	const records: Record<string, ItemRecord> = {};
+
+	if (!isObject(data)) {
+		throw new DataSchemaError([{ file: "item.json", id: "(root)", field: "(root)", value: typeof data, message: "expected an object keyed by item ID" }]);
+	}
+
+	for (const [id, item] of Object.entries(data)) {
+		const report = (field: string, value: unknown, message: string) => issues.push({ file: "item.json", id: `item ${id}`, field, value, message });
+
+		if (!isObject(item)) {
+			report("(item)", item, "expected an object");
+			continue;
+		}
+
+		const invalidStrings = ITEM_STRING_FIELDS.filter(field => typeof item[field] !== "string");
+		invalidStrings.forEach(field => report(field, item[field], "expected a string"));
+		ITEM_NUMBER_FIELDS.filter(field => typeof item[field] !== "number" || isNaN(item[field] as number)).forEach(field => report(field, item[field], "expected a number"));
+		if (!Array.isArray(item.sub)) report("sub", item.sub, "expected an array");
+		const placementValid = Array.isArray(item.placement) && item.placement.every(zone => typeof zone === "string");
+		if (!placementValid) report("placement", item.placement, "expected an array of zone IDs");
+		if (invalidStrings.length > 0 || !Array.isArray(item.sub) || !placementValid) continue;
+
+		const raw = item as unknown as ItemDataRaw;
+
+		const nameField = `name_${DEFAULT_LOCALE.field}`;
+		const name = item[nameField] as string;
+		if (name.trim() === "") report(nameField, name, "item name must not be empty");
+
+		const imageMetaProblem = checkImageMeta(raw.image_meta);
+		if (imageMetaProblem) report("image_meta", raw.image_meta, imageMetaProblem);
+
+		const priceTWD = parsePriceTWD(raw.price);
+		if (priceTWD === undefined) report("price", raw.price, 'expected a price like "$40,000" or "NT$40,000"');
+
+		const stock = parseStock(raw.remaining);
+		if (!stock) report("remaining", raw.remaining, "expected a whole number or empty for unlimited");
+
+		const deadline = parseDeadline(raw.deadline);
+		if (deadline === undefined) report("deadline", raw.deadline, 'expected a date like "2026/03/20" or "2026/03/20 18:00"');
+
+		const opensAt = parseStartTime(raw.start_time);
+		if (opensAt === undefined) report("start_time", raw.start_time, 'expected a date like "2026/03/01" or "2026/03/01 10:00"');
+		if (opensAt && deadline && opensAt > deadline) report("start_time", raw.start_time, `opens after the deadline ${raw.deadline}`);
+
+		const unit = raw.unit === "" ? null : raw.unit;
+		if (unit !== null && !isUnit(unit)) report("unit", raw.unit, `expected one of ${UNITS.join(", ")}`);
+
+		raw.placement.filter(zone => !venue.zones[zone]).forEach(zone => report("placement", zone, `unknown zone, expected one of ${Object.keys(venue.zones).join(", ")}`));
+
+		const sub: SubItemRecord[] = [];
+		const subIds = new Set<string>();
+		raw.sub.forEach((subItem, index) => {
+			const subField = (field: string) => `sub[${index}].${field}`;
+
+			if (!isObject(subItem)) {
+				report(subField("(sub-item)"), subItem, "expected an object");
+				return;
+			}
+
+			const invalidSubStrings = SUB_ITEM_STRING_FIELDS.filter(field => typeof subItem[field] !== "string");
+			invalidSubStrings.forEach(field => report(subField(field), subItem[field], "expected a string"));
+			if (invalidSubStrings.length > 0) return;
+
+			const subId = subItem.id as string;
+			if (!/^[a-z0-9_-]+$/.test(subId)) report(subField("id"), subId, 'expected lowercase letters, digits, "_" and "-"');
+			else if (subIds.has(subId)) report(subField("id"), subId, "sub-item ID is used twice in this item");
+			subIds.add(subId);
+
+			const subImageMetaProblem = checkImageMeta(subItem.image_meta);
+			if (subImageMetaProblem) report(subField("image_meta"), subItem.image_meta, subImageMetaProblem);
+
+			const subPrice = parsePriceTWD(subItem.price);
+			if (subPrice === undefined) report(subField("price"), subItem.price, 'expected a price like "$40,000" or "NT$40,000"');
+
+			const subStock = parseStock(subItem.remaining);
+			if (!subStock) report(subField("remaining"), subItem.remaining, "expected a whole number or empty for unlimited");
+
+			const subOpensAt = parseStartTime(subItem.start_time);
+			if (subOpensAt === undefined) report(subField("start_time"), subItem.start_time, 'expected a date like "2026/03/01" or "2026/03/01 10:00"');
+
+			sub.push({ index, id: subId, priceTWD: subPrice ?? null, stock: subStock ?? { kind: "unlimited" }, opensAt: subOpensAt ?? null });
+		});
+
+		records[id] = {
+			id,
+			priceTWD: priceTWD ?? null,
+			stock: stock ?? { kind: "unlimited" },
+			deadline: deadline ?? null,
+			opensAt: opensAt ?? null,
+			unit: unit !== null && isUnit(unit) ? unit : null,
+			placement: raw.placement,
+			sub,
+			raw
+		};
+	}
+
+	if (issues.length > 0) throw new DataSchemaError(issues);
+	return records;
+}
+
+/**
+ * Validate and convert the contents of plan.json
+ * @param data - The parsed JSON
+ * @param items - Validated items, used to check benefit item IDs
+ * @returns Typed plan records keyed by plan ID
+ * @throws DataSchemaError listing every invalid field
+ */
+export function parsePlansData(data: unknown, items: Record<string, ItemRecord>): Record<string, PlanRecord> {
+	const issues: DataSchemaIssue[] = [];
+	const records: Record<string, PlanRecord> = {};
+
+	if (!isObject(data)) {
+		throw new DataSchemaError([{ file: "plan.json", id: "(root)", field: "(root)", value: typeof data, message: "expected an object keyed by plan ID" }]);
+	}
+
+	for (const [key, plan] of Object.entries(data)) {
+		const report = (field: string, value: unknown, message: string) => issues.push({ file: "plan.json", id: `plan ${key}`, field, value, message });
+
+		if (!isObject(plan)) {
+			report("(plan)", plan, "expected an object");
+			continue;
+		}
+
+		const invalidStrings = ["id", "price", ...getLocalizedFieldNames(["name"])].filter(field => typeof plan[field] !== "string");
+		invalidStrings.forEach(field => report(field, plan[field], "expected a string"));
+		if (typeof plan.order !== "number") report("order", plan.order, "expected a number");
+		if (!Array.isArray(plan.benefits)) report("benefits", plan.benefits, "expected an array");
+		if (invalidStrings.length > 0 || typeof plan.order !== "number" || !Array.isArray(plan.benefits)) continue;
+
+		const raw = plan as unknown as PlanRaw;
+
+		if (raw.id !== key) report("id", raw.id, `expected to match its key "${key}"`);
+
+		const priceTWD = parsePriceTWD(raw.price);
+		if (priceTWD === null || priceTWD === undefined) report("price", raw.price, 'expected a price like "NT$179,000"');
+
+		if (!isObject(raw.display)) {
+			report("display", raw.display, "expected { color, badge_zh, badge_en, limit, remaining }");
+		} else {
+			const display = raw.display as Record<string, unknown>;
+			["color", ...getLocalizedFieldNames(["badge"])].filter(field => typeof display[field] !== "string").forEach(field => report(`display.${field}`, display[field], "expected a string"));
+			if (typeof display.color === "string" && display.color !== "" && !/^#[0-9a-fA-F]{3}(?:[0-9a-fA-F]{3})?$/.test(display.color)) {
+				report("display.color", display.color, 'expected a hex color like "#537FF1"');
+			}
+			(["limit", "remaining"] as const)
+				.filter(field => display[field] !== null && !(Number.isInteger(display[field]) && (display[field] as number) >= 0))
+				.forEach(field => report(`display.${field}`, display[field], "expected a non-negative integer or null"));
+		}
+
+		raw.benefits.forEach((benefit, index) => {
+			const field = (name: string) => `benefits[${index}].${name}`;
+
+			if (!isObject(benefit) || typeof benefit.item_id !== "string" || typeof benefit.item_name !== "string" || typeof benefit.quantity !== "string") {
+				report(field("(benefit)"), benefit, "expected { item_id, item_name, quantity } strings");
+				return;
+			}
+
+			if (benefit.item_id !== "" && !items[benefit.item_id]) {
+				report(field("item_id"), benefit.item_id, `unknown item ID for "${benefit.item_name}"`);
+			}
+		});
+
+		records[key] = { id: key, priceTWD: priceTWD ?? 0, order: raw.order, raw };
+	}
+
+	if (issues.length > 0) throw new DataSchemaError(issues);
+	return records;
+}
+
+/**
+ * Check that availability.json was written from the current item.json
+ * A stale file would make the site show the stock of an older fetch after it loads.
+ * @param data - The parsed JSON
+ * @param items - Validated items
+ * @returns The availability data
+ * @throws DataSchemaError listing every item that does not match
+ */
+export function parseAvailabilityData(data: unknown, items: Record<string, ItemRecord>): AvailabilityRaw {
+	const issues: DataSchemaIssue[] = [];
+	const STALE = "does not match item.json, run `pnpm fetch-data --availability-only`";
+
+	if (!isObject(data) || typeof data.version !== "string" || !isObject(data.items)) {
+		throw new DataSchemaError([{ file: "availability.json", id: "(root)", field: "(root)", value: typeof data, message: "expected { version, items }" }]);
+	}
+
+	const entries = data.items as Record<string, unknown>;
+	Object.keys(entries)
+		.filter(id => !items[id])
+		.forEach(id => issues.push({ file: "availability.json", id: `item ${id}`, field: "(item)", value: id, message: `unknown item, ${STALE}` }));
+
+	for (const [id, { raw }] of Object.entries(items)) {
+		const report = (field: string, value: unknown, message: string) => issues.push({ file: "availability.json", id: `item ${id}`, field, value, message });
+		const entry = entries[id];
+
+		if (!isObject(entry) || typeof entry.version !== "string" || !Array.isArray(entry.sub)) {
+			report("(item)", entry, `missing or malformed, ${STALE}`);
+			continue;
+		}
+
+		(["remaining", "deadline", "start_time"] as const).filter(field => entry[field] !== raw[field]).forEach(field => report(field, entry[field], STALE));
+
+		const subEntries = entry.sub as unknown[];
+		const subMatches =
+			subEntries.length === raw.sub.length &&
+			raw.sub.every((subItem, index) => {
+				const subEntry = subEntries[index];
+				return isObject(subEntry) && typeof subEntry.version === "string" && subEntry.id === subItem.id && subEntry.remaining === subItem.remaining && subEntry.start_time === subItem.start_time;
+			});
+		if (!subMatches) report("sub", subEntries.length, STALE);
+	}
+
+	if (issues.length > 0) throw new DataSchemaError(issues);
+	return data as unknown as AvailabilityRaw;
+}
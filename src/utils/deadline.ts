@@ -0,0 +1,161 @@
+/**
+ * Sale window helpers: when items open and close, always evaluated in Taiwan time
+ * so every visitor sees the same state no matter which timezone their browser is in
+ */
+
+import shopConfig from "@data/shop_config.json" with { type: "json" };
+
+export const SALE_TIME_ZONE = "Asia/Taipei";
+const SALE_UTC_OFFSET_HOURS = 8; // Taiwan has no daylight saving time
+
+export type SaleStatus = "upcoming" | "open" | "closed";
+
+export interface SaleTimes {
+	deadline?: string; // "YYYY/MM/DD" (end of that day) or "YYYY/MM/DD HH:mm", Taiwan time
+	startTime?: string; // Same formats (start of that day when no time is given), or an ISO timestamp
+}
+
+export interface SaleWindow {
+	opensAt: Date | null;
+	closesAt: Date | null;
+}
+
+/**
+ * Parse a sale time from the sheet or shop_config.json
+ * @param value - "YYYY/MM/DD", "YYYY/MM/DD HH:mm", "YYYY-MM-DD" or an ISO timestamp with offset
+ * @param boundary - For date-only values, "start" means 00:00 and "end" means 23:59:59.999 Taiwan time
+ * @returns The instant, null when empty, or undefined when malformed
+ */
+export function parseSaleTime(value: string | undefined, boundary: "start" | "end"): Date | null | undefined {
+	const trimmed = (value ?? "").trim();
+	if (trimmed === "") return null;
+
+	// Full ISO timestamps carry their own offset
+	if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:\d{2})$/.test(trimmed)) {
+		const date = new Date(trimmed);
+		return isNaN(date.getTime()) ? undefined : date;
+	}
+
+	const match = trimmed.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})(?:\s+(\d{1,2}):(\d{2}))?$/);
+	if (!match) return undefined;
+
+	const [year, month, day] = match.slice(1, 4).map(part => parseInt(part, 10));
+	const hasTime = match[4] !== undefined;
+	const endOfDay = !hasTime && boundary === "end";
+	const hours = hasTime ? parseInt(match[4], 10) : endOfDay ? 23 : 0;
+	const minutes = hasTime ? parseInt(match[5], 10) : endOfDay ? 59 : 0;
+	if (hours > 23 || minutes > 59) return undefined;
+
+	// Reject dates like 2026/02/30 that Date silently rolls over
+	const calendarDate = new Date(Date.UTC(year, month - 1, day));
+	if (calendarDate.getUTCFullYear() !== year || calendarDate.getUTCMonth() !== month - 1 || calendarDate.getUTCDate() !== day) return undefined;
+
+	return new Date(Date.UTC(year, month - 1, day, hours - SALE_UTC_OFFSET_HOURS, minutes, endOfDay ? 59 : 0, endOfDay ? 999 : 0));
+}
+
+/**
+ * Work out when an item can be added to the interest list
+ * @param times - The item's deadline and optional opening time
+ * @param shopStartTime - Opening time of the whole shop, defaults to startTime in shop_config.json
+ * @returns The opening and closing instants, null when unbounded
+ */
+export function getSaleWindow(times: SaleTimes, shopStartTime: string = shopConfig.startTime): SaleWindow {
+	const itemOpensAt = parseSaleTime(times.startTime, "start") ?? null;
+	const shopOpensAt = parseSaleTime(shopStartTime, "start") ?? null;
+
+	// The later of the shop and item opening times wins
+	const opensAt = itemOpensAt && shopOpensAt ? new Date(Math.max(itemOpensAt.getTime(), shopOpensAt.getTime())) : (itemOpensAt ?? shopOpensAt);
+
+	return { opensAt, closesAt: parseSaleTime(times.deadline, "end") ?? null };
+}
+
+/**
+ * Get whether an item is not open yet, open, or closed
+ * @param times - The item's deadline and optional opening time
+ * @param now - Current time, for testing
+ */
+export function getSaleStatus(times: SaleTimes, now: Date = new Date()): SaleStatus {
+	const { opensAt, closesAt } = getSaleWindow(times);
+
+	if (closesAt && now > closesAt) return "closed";
+	if (opensAt && now < opensAt) return "upcoming";
+	return "open";
+}
+
+/**
+ * Check if an item can be added to the interest list right now
+ * @param times - The item's deadline and optional opening time
+ * @param now - Current time, for testing
+ */
+export function isSaleOpen(times: SaleTimes, now: Date = new Date()): boolean {
+	return getSaleStatus(times, now) === "open";
+}
+
+/**
+ * Check if a deadline has passed
+ * @param deadline - Deadline string in format "YYYY/MM/DD" or "YYYY/MM/DD HH:mm" (Taiwan time)
+ * @param now - Current time, for testing
+ * @returns true if deadline has passed, false otherwise (including empty or invalid deadlines)
+ */
+export function isDeadlinePassed(deadline: string, now: Date = new Date()): boolean {
+	const closesAt = parseSaleTime(deadline, "end");
+	if (closesAt === undefined) {
+		console.error("Invalid deadline date string:", deadline);
+		return false;
+	}
+	return closesAt !== null && now > closesAt;
+}
+
+/**
+ * Find the deadline that closes first
+ * @param deadlines - Deadline strings; empty and invalid ones are ignored
+ * @returns The earliest deadline as written, or "" when there is none
+ */
+export function getEarliestDeadline(deadlines: (string | null | undefined)[]): string {
+	let earliest = "";
+	let earliestTime = Infinity;
+
+	deadlines.forEach(deadline => {
+		const closesAt = parseSaleTime(deadline ?? "", "end");
+		if (closesAt && closesAt.getTime() < earliestTime) {
+			earliest = deadline as string;
+			earliestTime = closesAt.getTime();
+		}
+	});
+
+	return earliest;
+}
+
+/**
+ * Format a deadline as month/day in Taiwan time, e.g. "3/20" or "3/20 18:00"
+ * @param deadline - Deadline string from the sheet
+ * @returns The formatted date, or "" when empty or invalid
+ */
+export function formatDeadlineDate(deadline: string): string {
+	const closesAt = parseSaleTime(deadline, "end");
+	if (!closesAt) return "";
+
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat("en-US", { timeZone: SALE_TIME_ZONE, month: "numeric", day: "numeric", hour: "2-digit", minute: "2-digit", hourCycle: "h23" })
+			.formatToParts(closesAt)
+			.map(part => [part.type, part.value])
+	);
+	const hasTime = /\d{1,2}:\d{2}$/.test(deadline.trim());
+
+	return hasTime ? `${parts.month}/${parts.day} ${parts.hour}:${parts.minute}` : `${parts.month}/${parts.day}`;
+}
+
+/**
+ * Format the time until an instant, e.g. "in 3 days" or "3 天後"
+ * @param target - The opening or closing instant
+ * @param locale - Page language, e.g. "zh-Hant" or "en"
+ * @param now - Current time, for testing
+ */
+export function formatRelativeTime(target: Date, locale: string, now: Date = new Date()): string {
+	const minutes = Math.max(0, Math.ceil((target.getTime() - now.getTime()) / 60000));
+	const formatter = new Intl.RelativeTimeFormat(locale, { numeric: "always" });
+
+	if (minutes >= 60 * 24) return formatter.format(Math.floor(minutes / (60 * 24)), "day");
+	if (minutes >= 60) return formatter.format(Math.floor(minutes / 60), "hour");
+	return formatter.format(minutes, "minute");
+}
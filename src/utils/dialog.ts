@@ -0,0 +1,288 @@
+/**
+ * Modal dialogs built with Popup.astro
+ *
+ * Markup: an anchor element with the dialog ID, followed by a .popup-bg backdrop holding the
+ * .popup dialog. Dialogs stack: one opened over another keeps the first underneath, and
+ * Escape, the close button and a click on the backdrop close the top one only. Focus moves
+ * into the dialog, stays inside it while it is on top, and returns to whatever opened it.
+ *
+ * Item dialogs get their own /item/<id>/ URL and other dialogs a #<id> hash, so the back
+ * button closes them and a shared link opens them again (see restoreDialogFromLocation).
+ * "popupOpened" and "popupClosed" events with { id } in their detail follow every change.
+ */
+
+const ITEM_DIALOG_PREFIX = "item-popup-";
+const CLOSE_DURATION_MS = 300; // Matches the .popup-bg transition in Popup.astro
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+export interface DialogOpenedDetail {
+	id: string;
+	fromUser: boolean; // false when opened to match the URL, e.g. on load or with the back button
+}
+
+interface OpenDialog {
+	id: string;
+	backdrop: HTMLElement;
+	returnFocus: HTMLElement | null;
+}
+
+const stack: OpenDialog[] = [];
+let initialized = false;
+
+function getBackdrop(id: string): HTMLElement | null {
+	const anchor = document.getElementById(id);
+	const backdrop = anchor?.nextElementSibling;
+	return backdrop instanceof HTMLElement && backdrop.classList.contains("popup-bg") ? backdrop : null;
+}
+
+function getDialogElement(backdrop: HTMLElement): HTMLElement {
+	return (backdrop.querySelector(".popup") as HTMLElement | null) ?? backdrop;
+}
+
+function getFocusableElements(dialog: HTMLElement): HTMLElement[] {
+	return (Array.from(dialog.querySelectorAll(FOCUSABLE_SELECTOR)) as HTMLElement[]).filter(element => element.getClientRects().length > 0);
+}
+
+// Root of this edition, e.g. "/2026/cfs/en/", and the page title without a dialog
+function getPageInfo(): { basePath: string; title: string } {
+	return { basePath: document.body.dataset.basePath || "/2026/cfs/", title: document.body.dataset.title || document.title };
+}
+
+/**
+ * Get the item ID of an item dialog
+ * @param id - Dialog ID, e.g. "item-popup-12"
+ * @returns The item ID, or null for other dialogs
+ */
+export function getDialogItemId(id: string): string | null {
+	return id.startsWith(ITEM_DIALOG_PREFIX) ? id.slice(ITEM_DIALOG_PREFIX.length) : null;
+}
+
+function getDialogUrl(id: string): string {
+	const itemId = getDialogItemId(id);
+	return itemId === null ? `#${id}` : `${getPageInfo().basePath}item/${itemId}/`;
+}
+
+function getDialogState(id: string): { popupId: string; type: "item" | "anchor" } {
+	return { popupId: id, type: getDialogItemId(id) === null ? "anchor" : "item" };
+}
+
+function setDialogTitle(dialog: OpenDialog | undefined): void {
+	const { title } = getPageInfo();
+	const itemName = dialog && getDialogItemId(dialog.id) !== null ? dialog.backdrop.querySelector(".title-row h3")?.textContent?.trim() : "";
+	// e.g. "會場攤位 - SITCON 2026 贊助徵求書" for "SITCON 2026 贊助徵求書 - ..."
+	document.title = itemName ? `${itemName} - ${title.split(" - ")[0]}` : title;
+}
+
+/**
+ * Get the dialog on top of the stack
+ * @returns Its ID, or null when no dialog is open
+ */
+export function getTopDialogId(): string | null {
+	return stack.at(-1)?.id ?? null;
+}
+
+export function isDialogOpen(id: string): boolean {
+	return stack.some(dialog => dialog.id === id);
+}
+
+/**
+ * Open a dialog over the page and any open dialogs
+ * @param id - ID of the element before the dialog's backdrop
+ * @param options - updateUrl: give the dialog its own history entry (false when following the URL);
+ * replaceUrl: take over the current history entry instead, e.g. when moving to the next item
+ * @returns true if the dialog is open afterwards
+ */
+export function openDialog(id: string, options: { updateUrl?: boolean; replaceUrl?: boolean; returnFocus?: HTMLElement | null } = {}): boolean {
+	const { updateUrl = true, replaceUrl = false } = options;
+	if (isDialogOpen(id)) return true;
+
+	const backdrop = getBackdrop(id);
+	if (!backdrop) return false;
+
+	const active = document.activeElement instanceof HTMLElement && document.activeElement !== document.body ? document.activeElement : null;
+	const dialog: OpenDialog = { id, backdrop, returnFocus: options.returnFocus !== undefined ? options.returnFocus : active };
+
+	if (updateUrl) {
+		const state = getDialogState(id);
+		if (replaceUrl) {
+			history.replaceState(state, "", getDialogUrl(id));
+		} else {
+			history.pushState(state, "", getDialogUrl(id));
+		}
+	}
+
+	stack.push(dialog);
+	setDialogTitle(dialog);
+
+	backdrop.style.display = "flex";
+	backdrop.style.zIndex = String(100 + stack.length);
+	setTimeout(() => {
+		backdrop.scrollTo({ top: 0 });
+		backdrop.classList.add("show");
+		getDialogElement(backdrop).focus({ preventScroll: true });
+		document.dispatchEvent(new CustomEvent<DialogOpenedDetail>("popupOpened", { detail: { id, fromUser: updateUrl } }));
+	}, 0);
+
+	return true;
+}
+
+/**
+ * Close a dialog
+ * @param id - The dialog to close, the top one when left out
+ * @param options - updateUrl: leave the dialog's URL (false when the URL already changed);
+ * restoreFocus: give focus back to the element that opened it
+ * @returns true if a dialog was closed
+ */
+export function closeDialog(id?: string, options: { updateUrl?: boolean; restoreFocus?: boolean } = {}): boolean {
+	const { updateUrl = true, restoreFocus = true } = options;
+	const index = id === undefined ? stack.length - 1 : stack.findIndex(dialog => dialog.id === id);
+	if (index < 0) return false;
+
+	const [dialog] = stack.splice(index, 1);
+	const { backdrop } = dialog;
+	backdrop.classList.remove("show");
+	setTimeout(() => {
+		// It may have been opened again during the transition
+		if (!isDialogOpen(dialog.id)) backdrop.style.display = "none";
+		document.dispatchEvent(new CustomEvent("popupClosed", { detail: { id: dialog.id } }));
+	}, CLOSE_DURATION_MS);
+
+	if (updateUrl) {
+		if (history.state?.popupId === dialog.id) {
+			// Only openDialog writes this state, so the entry before it is this page too. Step back
+			// instead of adding an entry, so the back button does not reopen the dialog.
+			history.back();
+		} else {
+			// Opened from a shared link
+			const top = stack.at(-1);
+			history.pushState(top ? getDialogState(top.id) : null, "", top ? getDialogUrl(top.id) : window.location.origin + getPageInfo().basePath);
+		}
+	}
+	setDialogTitle(stack.at(-1));
+
+	if (restoreFocus) {
+		const target = dialog.returnFocus?.isConnected ? dialog.returnFocus : stack.length > 0 ? getDialogElement(stack[stack.length - 1].backdrop) : null;
+		target?.focus({ preventScroll: true });
+	}
+
+	return true;
+}
+
+/**
+ * Show another dialog in place of the top one, e.g. the next item
+ * @param nextId - The dialog to show
+ * @returns true if it was shown
+ */
+export function replaceTopDialog(nextId: string): boolean {
+	const current = stack.at(-1);
+	if (!current) return openDialog(nextId);
+	if (!getBackdrop(nextId)) return false;
+
+	openDialog(nextId, { replaceUrl: true, returnFocus: current.returnFocus });
+	closeDialog(current.id, { updateUrl: false, restoreFocus: false });
+	return true;
+}
+
+/**
+ * Find the dialog a location points to
+ * @param state - history.state
+ * @returns The dialog ID from the state, the #hash or an /item/<id>/ path, or null
+ */
+function getDialogIdFromLocation(state: { popupId?: string } | null): string | null {
+	if (state?.popupId) return state.popupId;
+
+	if (window.location.hash) {
+		const id = decodeURIComponent(window.location.hash.slice(1));
+		return getBackdrop(id) ? id : null;
+	}
+
+	const match = window.location.pathname.match(/\/item\/([^/]+)/);
+	return match ? `${ITEM_DIALOG_PREFIX}${match[1]}` : null;
+}
+
+/**
+ * Open the dialog the current URL points to and close the others
+ * @param state - history.state of the entry being shown
+ */
+export function restoreDialogFromLocation(state: { popupId?: string } | null = history.state): void {
+	const id = getDialogIdFromLocation(state);
+	const target = id && getBackdrop(id) ? id : null;
+
+	[...stack]
+		.reverse()
+		.filter(dialog => dialog.id !== target)
+		.forEach(dialog => closeDialog(dialog.id, { updateUrl: false }));
+
+	if (target && !isDialogOpen(target)) {
+		// Item dialogs open over the item list
+		if (getDialogItemId(target) !== null) document.getElementById("items")?.scrollIntoView({ behavior: "instant" });
+		openDialog(target, { updateUrl: false });
+	}
+}
+
+function trapFocus(event: KeyboardEvent, backdrop: HTMLElement): void {
+	const dialog = getDialogElement(backdrop);
+	const focusable = getFocusableElements(dialog);
+	if (focusable.length === 0) {
+		event.preventDefault();
+		dialog.focus();
+		return;
+	}
+
+	const first = focusable[0];
+	const last = focusable[focusable.length - 1];
+	const active = document.activeElement;
+
+	if (event.shiftKey && (active === first || active === dialog || !dialog.contains(active))) {
+		event.preventDefault();
+		last.focus();
+	} else if (!event.shiftKey && (active === last || !dialog.contains(active))) {
+		event.preventDefault();
+		first.focus();
+	}
+}
+
+/**
+ * Wire up every dialog on the page: open buttons, close buttons, backdrop clicks, Escape,
+ * focus trapping and the back button
+ */
+export function initializeDialogs(): void {
+	if (initialized) return;
+	initialized = true;
+
+	document.addEventListener("click", event => {
+		const target = event.target as Element;
+
+		const openButton = target.closest(".detail-btn");
+		if (openButton instanceof HTMLElement && openButton.id) {
+			openDialog(openButton.id);
+			return;
+		}
+
+		const closeButton = target.closest(".popup-bg .close-btn");
+		const closeAnchor = closeButton?.closest(".popup-bg")?.previousElementSibling;
+		if (closeAnchor?.id) {
+			closeDialog(closeAnchor.id);
+			return;
+		}
+
+		if (target.classList.contains("popup-bg")) {
+			const anchor = target.previousElementSibling;
+			if (anchor?.id) closeDialog(anchor.id);
+		}
+	});
+
+	document.addEventListener("keydown", event => {
+		const top = stack.at(-1);
+		if (!top) return;
+
+		if (event.key === "Escape" || event.key === "Esc") {
+			event.preventDefault();
+			closeDialog(top.id);
+		} else if (event.key === "Tab") {
+			trapFocus(event, top.backdrop);
+		}
+	});
+
+	window.addEventListener("popstate", event => restoreDialogFromLocation(event.state));
+}
@@ -0,0 +1,333 @@
+/**
+ * Send sponsor inquiries from the sponsor form
+ *
+ * The form hands an Inquiry to a transport. The Google Form transport is the default; setting
+ * PUBLIC_INQUIRY_WEBHOOK_URL switches to a JSON webhook (see scripts/inquiry-webhook-server.js
+ * for a local stand-in). Inquiries that fail because the browser is offline or the endpoint is
+ * unreachable are kept in localStorage and sent again once the connection is back.
+ */
+
+import type { InterestedItem } from "./cart-store.js";
+import { encodeCartState } from "./cart-share.js";
+import { parseSubItemCartId } from "./plan-helper.js";
+
+export const INQUIRY_FIELDS = ["organization", "department", "name", "contact", "message"] as const;
+export type InquiryField = (typeof INQUIRY_FIELDS)[number];
+export type InquiryFields = Record<InquiryField, string>;
+
+const REQUIRED_FIELDS: InquiryField[] = ["organization", "name", "contact"];
+const INQUIRY_QUEUE_KEY = "inquiryQueue";
+const INQUIRY_QUEUE_LOCK = "inquiryQueue";
+const INQUIRY_PAYLOAD_VERSION = 2;
+const MAX_QUEUED_INQUIRIES = 5;
+
+export type InquiryFieldError = "required" | "leadingEqual" | "contact";
+export type InquiryFieldErrors = Partial<Record<InquiryField, InquiryFieldError>>;
+
+export interface InquiryCartLine {
+	id: string; // Interest list ID, e.g. "12-sub-4a49e0ad" or "tier-navigator"
+	kind: "tier" | "item" | "sub_item";
+	item_id: string; // Item ID, the parent item for sub-items, or the plan ID for tiers
+	sub_item_id: string | null; // The sub-item's ID in item.json, e.g. "4a49e0ad"
+	title: string;
+	quantity: number;
+	price: string; // Display price, e.g. "$40,000" or "方案包含項目"
+}
+
+export interface Inquiry {
+	fields: InquiryFields;
+	cart: InquiryCartLine[];
+	lang: string;
+	submittedAt: string; // ISO timestamp of the first attempt
+}
+
+export interface InquiryTransport {
+	name: string;
+	send(inquiry: Inquiry): Promise<void>;
+}
+
+export class InquirySubmitError extends Error {
+	readonly retryable: boolean; // true when sending again later may succeed, e.g. while offline
+
+	constructor(message: string, retryable: boolean) {
+		super(message);
+		this.name = "InquirySubmitError";
+		this.retryable = retryable;
+	}
+}
+
+export class InquiryQueueFullError extends Error {
+	constructor() {
+		super(`${MAX_QUEUED_INQUIRIES} inquiries are already waiting to be sent`);
+		this.name = "InquiryQueueFullError";
+	}
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s()-]+$/;
+
+/**
+ * Check a contact value that looks like an email address or a phone number
+ * @param contact - Contact as typed; other handles (FB, LINE ID, Telegram ...) are accepted as is
+ */
+export function isValidContact(contact: string): boolean {
+	const value = contact.trim();
+
+	// A single token with "@" after its first character is meant as an email address; "@handle" is not
+	if (!/\s/.test(value) && value.indexOf("@") > 0) return EMAIL_PATTERN.test(value);
+
+	if (PHONE_PATTERN.test(value)) {
+		const digits = value.replace(/\D/g, "").length;
+		return digits >= 8 && digits <= 15;
+	}
+
+	return true;
+}
+
+/**
+ * Validate the sponsor form
+ * @param fields - Values from the form
+ * @returns The first problem of each invalid field; empty when the inquiry can be sent
+ */
+export function validateInquiry(fields: InquiryFields): InquiryFieldErrors {
+	const errors: InquiryFieldErrors = {};
+
+	INQUIRY_FIELDS.forEach(field => {
+		const value = fields[field];
+		if (REQUIRED_FIELDS.includes(field) && !value.trim()) {
+			errors[field] = "required";
+		} else if (value.startsWith("=")) {
+			// Google Sheets would read the answer as a formula
+			errors[field] = "leadingEqual";
+		} else if (field === "contact" && !isValidContact(value)) {
+			errors[field] = "contact";
+		}
+	});
+
+	return errors;
+}
+
+/**
+ * Turn the interest list into structured cart lines
+ * @param items - Items from localStorage
+ */
+export function buildInquiryCart(items: InterestedItem[]): InquiryCartLine[] {
+	return items.map(item => {
+		const quantity = Math.max(item.quantity ?? 1, 1);
+		const price = item.price ?? "";
+
+		if (item.id.startsWith("tier-")) {
+			return { id: item.id, kind: "tier", item_id: item.id.slice("tier-".length), sub_item_id: null, title: item.title, quantity, price };
+		}
+
+		const subItem = parseSubItemCartId(item.id);
+		return subItem === null
+			? { id: item.id, kind: "item", item_id: item.id, sub_item_id: null, title: item.title, quantity, price }
+			: { id: item.id, kind: "sub_item", item_id: subItem.itemId, sub_item_id: subItem.subItemId, title: item.title, quantity, price };
+	});
+}
+
+/**
+ * Build an inquiry from the form values and the interest list
+ * @param fields - Values from the form
+ * @param items - Items from localStorage
+ * @param lang - Page language
+ */
+export function createInquiry(fields: InquiryFields, items: InterestedItem[], lang: string): Inquiry {
+	return { fields, cart: buildInquiryCart(items), lang, submittedAt: new Date().toISOString() };
+}
+
+/**
+ * Describe the cart in text, for transports that only take text answers
+ * @param cart - Cart lines
+ * @returns Lines like "感興趣的項目：會場攤位 ×2（$40,000）" plus the IDs in share-link format
+ */
+export function formatInquiryCart(cart: InquiryCartLine[]): string {
+	if (cart.length === 0) return "";
+
+	const items = cart.map(line => `${line.title}${line.quantity > 1 ? ` ×${line.quantity}` : ""}${line.price ? `（${line.price}）` : ""}`).join("、");
+	const state = encodeCartState(cart.map(line => ({ id: line.id, quantity: line.quantity })));
+
+	return `感興趣的項目：${items}\n項目代碼：${state}`;
+}
+
+/**
+ * The payload a webhook receives
+ * @param inquiry - The inquiry to send
+ */
+export function toInquiryPayload(inquiry: Inquiry) {
+	const { message, ...sponsor } = inquiry.fields;
+
+	return {
+		version: INQUIRY_PAYLOAD_VERSION,
+		submitted_at: inquiry.submittedAt,
+		lang: inquiry.lang,
+		sponsor,
+		message,
+		cart: inquiry.cart,
+		cart_state: encodeCartState(inquiry.cart.map(line => ({ id: line.id, quantity: line.quantity })))
+	};
+}
+
+/**
+ * Post the inquiry to a Google Form
+ *
+ * Google Forms does not allow reading the response, so the request counts as sent once it leaves
+ * the browser; only network failures can be detected.
+ * @param formUrl - The form's formResponse URL
+ * @param entries - Entry IDs of the form questions
+ */
+export function createGoogleFormTransport(formUrl: string, entries: InquiryFields): InquiryTransport {
+	return {
+		name: "google-form",
+		async send(inquiry) {
+			const body = new FormData();
+			INQUIRY_FIELDS.forEach(field => {
+				const value = field === "message" ? [inquiry.fields.message.trim(), formatInquiryCart(inquiry.cart)].filter(Boolean).join("\n\n") : inquiry.fields[field];
+				body.append(entries[field], value);
+			});
+
+			try {
+				await fetch(formUrl, { method: "POST", mode: "no-cors", body });
+			} catch (error) {
+				throw new InquirySubmitError(`Google Form request failed: ${error instanceof Error ? error.message : error}`, true);
+			}
+		}
+	};
+}
+
+/**
+ * Post the inquiry as JSON to a webhook
+ * @param webhookUrl - Endpoint that accepts the payload of toInquiryPayload
+ */
+export function createWebhookTransport(webhookUrl: string): InquiryTransport {
+	return {
+		name: "webhook",
+		async send(inquiry) {
+			let response: Response;
+			try {
+				response = await fetch(webhookUrl, {
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify(toInquiryPayload(inquiry))
+				});
+			} catch (error) {
+				throw new InquirySubmitError(`Webhook request failed: ${error instanceof Error ? error.message : error}`, true);
+			}
+
+			if (!response.ok) {
+				// Server errors and rate limits may clear up; other statuses mean the payload was rejected
+				throw new InquirySubmitError(`Webhook responded with ${response.status}`, response.status >= 500 || response.status === 429);
+			}
+		}
+	};
+}
+
+export function getQueuedInquiries(): Inquiry[] {
+	if (typeof window === "undefined") return [];
+
+	try {
+		const queue = localStorage.getItem(INQUIRY_QUEUE_KEY);
+		return queue ? JSON.parse(queue) : [];
+	} catch (error) {
+		console.error("Error getting queued inquiries from localStorage:", error);
+		return [];
+	}
+}
+
+function saveQueuedInquiries(queue: Inquiry[]): boolean {
+	try {
+		if (queue.length === 0) {
+			localStorage.removeItem(INQUIRY_QUEUE_KEY);
+		} else {
+			localStorage.setItem(INQUIRY_QUEUE_KEY, JSON.stringify(queue));
+		}
+		return true;
+	} catch (error) {
+		console.error("Error saving queued inquiries to localStorage:", error);
+		return false;
+	}
+}
+
+/**
+ * Keep an inquiry until flushInquiryQueue sends it
+ * @param inquiry - The inquiry that could not be sent
+ * @throws InquiryQueueFullError when the queue is full; older inquiries are never dropped to make room
+ * @throws InquirySubmitError when localStorage cannot keep it
+ */
+function queueInquiry(inquiry: Inquiry): void {
+	const queue = getQueuedInquiries();
+	if (queue.length >= MAX_QUEUED_INQUIRIES) throw new InquiryQueueFullError();
+	if (!saveQueuedInquiries([...queue, inquiry])) throw new InquirySubmitError("Could not keep the inquiry to send later", false);
+}
+
+/**
+ * Send an inquiry, keeping it for later when the browser is offline or the endpoint is unreachable
+ * @param inquiry - The inquiry to send
+ * @param transport - Where to send it
+ * @returns "sent", or "queued" when it will be retried by flushInquiryQueue
+ * @throws InquirySubmitError when the inquiry was rejected and retrying will not help
+ * @throws InquiryQueueFullError when it cannot be sent now and the queue is full
+ */
+export async function submitInquiry(inquiry: Inquiry, transport: InquiryTransport): Promise<"sent" | "queued"> {
+	if (typeof navigator !== "undefined" && !navigator.onLine) {
+		queueInquiry(inquiry);
+		return "queued";
+	}
+
+	try {
+		await transport.send(inquiry);
+		return "sent";
+	} catch (error) {
+		if (error instanceof InquirySubmitError && error.retryable) {
+			queueInquiry(inquiry);
+			return "queued";
+		}
+		throw error;
+	}
+}
+
+// Queued inquiries have no ID; the serialized inquiry identifies it in the stored queue
+function isSameInquiry(a: Inquiry, b: Inquiry): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function removeQueuedInquiry(inquiry: Inquiry): void {
+	saveQueuedInquiries(getQueuedInquiries().filter(queued => !isSameInquiry(queued, inquiry)));
+}
+
+async function sendQueuedInquiries(transport: InquiryTransport): Promise<number> {
+	let sent = 0;
+
+	for (const inquiry of getQueuedInquiries()) {
+		try {
+			await transport.send(inquiry);
+			sent++;
+		} catch (error) {
+			if (error instanceof InquirySubmitError && error.retryable) continue;
+			console.error("Dropping queued inquiry that was rejected:", error);
+		}
+		// Read the stored queue again, as inquiries may have been queued while this one was sending
+		removeQueuedInquiry(inquiry);
+	}
+
+	return sent;
+}
+
+/**
+ * Send the queued inquiries again
+ *
+ * Only one tab sends at a time: tabs that come back online together would otherwise send the
+ * same inquiries twice. Browsers without the Web Locks API send without the lock.
+ * @param transport - Where to send them
+ * @returns The number of inquiries sent by this call; rejected ones are dropped, unreachable ones stay queued
+ */
+export async function flushInquiryQueue(transport: InquiryTransport): Promise<number> {
+	if (getQueuedInquiries().length === 0 || (typeof navigator !== "undefined" && !navigator.onLine)) return 0;
+
+	if (typeof navigator !== "undefined" && navigator.locks) {
+		// Another tab holding the lock is already sending the queue
+		return navigator.locks.request(INQUIRY_QUEUE_LOCK, { ifAvailable: true }, lock => (lock ? sendQueuedInquiries(transport) : 0));
+	}
+	return sendQueuedInquiries(transport);
+}
@@ -0,0 +1,48 @@
+/**
+ * Responsive sources for the item images in public/items
+ *
+ * The importer stores every image as <id>.webp / <id>.avif at full size plus smaller
+ * <id>-<width>.webp / .avif variants, and records their widths in image_meta
+ * (see processImageVariants in scripts/fetch-and-merge.js).
+ */
+
+import { BASE_PATH } from "./locales.js";
+import type { ImageMetaRaw } from "./data-schema.js";
+
+const ITEMS_URL = `${BASE_PATH}/items`;
+const FORMATS = [
+	{ extension: "avif", type: "image/avif" },
+	{ extension: "webp", type: "image/webp" }
+];
+
+export interface ItemImageSources {
+	src: string; // Full-size WebP
+	width?: number;
+	height?: number;
+	placeholder?: string; // Blurred data URL to show until the image loads
+	sources: { type: string; srcset: string }[]; // <source> elements, best format first
+}
+
+/**
+ * Get the URLs of an item image and its variants
+ * @param image - File name from item.json, e.g. "abc.webp"
+ * @param meta - The image_meta next to it; images without one only have the single file
+ */
+export function getItemImageSources(image: string, meta: ImageMetaRaw | null): ItemImageSources {
+	const src = `${ITEMS_URL}/${image}`;
+	if (!meta) return { src, sources: [] };
+
+	const imageId = image.replace(/\.[^.]+$/, "");
+	const fileName = (width: number, extension: string) => (width === meta.width ? `${imageId}.${extension}` : `${imageId}-${width}.${extension}`);
+
+	return {
+		src,
+		width: meta.width,
+		height: meta.height,
+		placeholder: meta.placeholder,
+		sources: FORMATS.map(({ extension, type }) => ({
+			type,
+			srcset: meta.widths.map(width => `${ITEMS_URL}/${fileName(width, extension)} ${width}w`).join(", ")
+		}))
+	};
+}
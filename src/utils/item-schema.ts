@@ -0,0 +1,88 @@
+/**
+ * Product structured data (JSON-LD) for item pages
+ */
+
+import { isSaleOpen, type SaleTimes } from "./deadline.js";
+import { isSoldOut } from "./item-status.js";
+import { BASE_PATH, getLocalePath } from "./locales.js";
+import { formatQuotationDate } from "./quotation.js";
+import type { ItemData } from "./items-loader.js";
+
+const SITE_URL = "https://sitcon.org";
+const SELLER = { "@type": "Organization", name: "SITCON" };
+
+// The same rules as the add buttons: sold out first, then the sale window in Taiwan time
+function getAvailability(soldOut: boolean, times: SaleTimes): string {
+	if (soldOut) return "https://schema.org/SoldOut";
+	return isSaleOpen(times) ? "https://schema.org/InStock" : "https://schema.org/OutOfStock";
+}
+
+/**
+ * Describe what the item sells for: one Offer, or an AggregateOffer over its sub-items
+ * @param item - Localized item
+ * @returns The offers, or undefined for items without a price (e.g. only sold in tiers)
+ */
+function buildOffers(item: ItemData) {
+	const availability = getAvailability(isSoldOut(item), { deadline: item.deadline, startTime: item.start_time });
+	// The day the sale closes in Taiwan; the UTC date is a day earlier for deadlines before 08:00
+	const priceValidUntil = item.deadline_iso ? formatQuotationDate(new Date(item.deadline_iso), "-") : undefined;
+
+	const subOffers = item.sub
+		.filter(sub => sub.price_twd !== null)
+		.map(sub => ({
+			"@type": "Offer",
+			name: sub.name,
+			price: sub.price_twd,
+			priceCurrency: "TWD",
+			// A sold-out item sells out all of its sub-items, which may open later than the item
+			availability: getAvailability(item.remaining === "0" || sub.remaining === "0", { deadline: item.deadline, startTime: sub.start_time || item.start_time }),
+			priceValidUntil
+		}));
+
+	if (subOffers.length > 0) {
+		const prices = subOffers.map(offer => offer.price as number);
+		return {
+			"@type": "AggregateOffer",
+			lowPrice: Math.min(...prices),
+			highPrice: Math.max(...prices),
+			offerCount: subOffers.length,
+			priceCurrency: "TWD",
+			availability,
+			offers: subOffers,
+			seller: SELLER
+		};
+	}
+
+	if (item.price_twd === null) return undefined;
+
+	return {
+		"@type": "Offer",
+		price: item.price_twd,
+		priceCurrency: "TWD",
+		availability,
+		priceValidUntil,
+		seller: SELLER
+	};
+}
+
+/**
+ * Build the Product schema of an item page
+ * @param item - Localized item
+ * @param lang - Locale code of the page
+ * @param description - Page description
+ */
+export function buildProductSchema(item: ItemData, lang: string, description: string) {
+	return {
+		"@context": "https://schema.org",
+		"@type": "Product",
+		name: item.name,
+		description,
+		url: `${SITE_URL}${getLocalePath(lang, `item/${item.id}/`)}`,
+		image: item.image ? `${SITE_URL}${BASE_PATH}/items/${item.image}` : undefined,
+		brand: {
+			"@type": "Organization",
+			name: "SITCON"
+		},
+		offers: buildOffers(item)
+	};
+}
@@ -1,10 +1,11 @@
-import { isDeadlinePassed } from "./local-storage.js";
+import { isSaleOpen } from "./deadline.js";
 
 // Minimal shape needed to evaluate stock/expiry status
 export type StockedItem = {
 	remaining: string;
 	sub?: { remaining: string }[];
 	deadline?: string;
+	start_time?: string;
 };
 
 export function isSoldOut(item: StockedItem): boolean {
@@ -13,6 +14,25 @@ export function isSoldOut(item: StockedItem): boolean {
 	return item.remaining === "0" || (hasSubItems && subItems.every(sub => sub.remaining === "0"));
 }
 
+// Sold out, past its deadline, or not open yet (Taiwan time)
 export function isInactive(item: StockedItem): boolean {
-	return isSoldOut(item) || isDeadlinePassed(item.deadline || "");
+	return isSoldOut(item) || !isSaleOpen({ deadline: item.deadline, startTime: item.start_time });
+}
+
+/**
+ * Get how many units of an item (or sub-item) a sponsor can add to the interest list
+ * @param quantity - The item's quantity field, e.g. "獨家", "max 2", "不限"
+ * @param remaining - The item's (or sub-item's) remaining stock, "" when not tracked
+ * @returns The maximum quantity, 0 when sold out (nothing can be added), or undefined when unlimited
+ */
+export function getMaxQuantity(quantity: string, remaining: string): number | undefined {
+	const remainingCount = parseInt(remaining, 10);
+	if (!isNaN(remainingCount)) return remainingCount;
+
+	if (quantity === "獨家") return 1;
+
+	const maxMatch = quantity.match(/^max\s*(\d+)$/i);
+	if (maxMatch) return parseInt(maxMatch[1], 10);
+
+	return undefined;
 }
@@ -2,49 +2,24 @@
  * Utility functions for loading items data from individual markdown folders
  */
 
-export interface SubItemRaw {
-	name_zh: string;
-	name_en: string;
-	price: string;
-	remaining: string;
-	image: string;
-	image_description_zh: string;
-	image_description_en: string;
-}
+import { parseAvailabilityData, parseItemsData, parsePlansData, type AvailabilityRaw, type ImageMetaRaw, type ItemDataRaw, type ItemRecord, type Stock } from "./data-schema.js";
+import { DEFAULT_LOCALE, getDataLabels, getLocalizedField, isTranslationMissing } from "./locales.js";
+import { loadVenueRecord } from "./venue.js";
+
+export type { ImageMetaRaw, ItemDataRaw, SubItemRaw } from "./data-schema.js";
 
 export interface SubItem {
+	id: string; // Unique within the item, see getSubItemCartId for the ID used in the cart
 	name: string;
 	price: string;
+	price_twd: number | null;
 	remaining: string;
+	stock: Stock;
 	image: string;
+	image_meta: ImageMetaRaw | null;
 	image_description: string;
-}
-
-export interface ItemDataRaw {
-	name_zh: string;
-	name_en: string;
-	order: number;
-	quantity: string;
-	remaining: string;
-	unit: string;
-	type: string;
-	global_description_zh: string;
-	global_description_en: string;
-	talent_recruitment_zh: string;
-	talent_recruitment_en: string;
-	brand_exposure_zh: string;
-	brand_exposure_en: string;
-	product_promotion_zh: string;
-	product_promotion_en: string;
-	image: string;
-	image_description_zh: string;
-	image_description_en: string;
-	price: string;
-	deadline: string;
-	talent_recruitment_order: number;
-	brand_exposure_order: number;
-	product_promotion_order: number;
-	sub: SubItemRaw[];
+	start_time: string;
+	untranslated: string[]; // Fields shown in the default language because this one is empty, e.g. "name"
 }
 
 export interface ItemData {
@@ -53,105 +28,122 @@ export interface ItemData {
 	order: number;
 	quantity: string;
 	remaining: string;
+	stock: Stock;
 	unit: string;
 	type: string;
+	type_key: string; // Type as written in the sheet, the same in every language
 	global_description: string;
 	talent_recruitment: string;
 	brand_exposure: string;
 	product_promotion: string;
 	image: string;
+	image_meta: ImageMetaRaw | null;
 	image_description: string;
 	price: string;
+	price_twd: number | null;
 	deadline: string;
+	deadline_iso: string | null;
+	start_time: string;
+	placement: string[]; // Venue zone IDs, see getVenue
 	talent_recruitment_order: number;
 	brand_exposure_order: number;
 	product_promotion_order: number;
 	sub: SubItem[];
+	untranslated: string[]; // Fields shown in the default language because this one is empty, e.g. "global_description"
 }
 
-function getLocaleSuffix(locale: string): string {
-	return locale === "zh-Hant" || locale === "zh" ? "_zh" : "_en";
-}
-
-// Type translations mapping
-const typeTranslations: Record<string, { zh: string; en: string }> = {
-	現場實體曝光: {
-		zh: "現場實體曝光",
-		en: "On-site Physical Exposure"
-	},
-	紀念品配件曝光: {
-		zh: "紀念品配件曝光",
-		en: "Souvenir & Accessory Exposure"
-	},
-	獨家議程: {
-		zh: "獨家議程",
-		en: "Exclusive Session"
-	},
-	更多曝光方式: {
-		zh: "更多曝光方式",
-		en: "More Exposure Options"
-	},
-	數位媒體曝光: {
-		zh: "數位媒體曝光",
-		en: "Digital Media Exposure"
-	}
-};
+const LOCALIZED_ITEM_FIELDS = ["name", "global_description", "talent_recruitment", "brand_exposure", "product_promotion", "image_description"];
+const LOCALIZED_SUB_ITEM_FIELDS = ["name", "image_description"];
 
 function translateType(type: string, locale: string): string {
-	const translation = typeTranslations[type];
-	if (!translation) {
-		return type; // Fallback to original if no translation found
-	}
-	return locale === "zh-Hant" || locale === "zh" ? translation.zh : translation.en;
+	// Fallback to original if no translation found
+	return getDataLabels(locale).item_types[type] || type;
 }
 
-function extractLocalizedData(rawData: ItemDataRaw, locale: string, id: string): ItemData {
-	// Determine suffix based on locale
-	const suffix = getLocaleSuffix(locale);
+function extractLocalizedData(record: ItemRecord, locale: string, id: string): ItemData {
+	const rawData = record.raw;
+	const localized = (data: object, field: string) => getLocalizedField(data, field, locale);
+	const untranslated = (data: object, fields: string[]) => fields.filter(field => isTranslationMissing(data, field, locale));
 
 	// Extract localized sub-items
-	const localizedSub: SubItem[] = rawData.sub.map(subItem => ({
-		name: suffix === "_zh" ? subItem.name_zh : subItem.name_en,
+	const localizedSub: SubItem[] = rawData.sub.map((subItem, index) => ({
+		id: subItem.id,
+		name: localized(subItem, "name"),
 		price: subItem.price,
+		price_twd: record.sub[index].priceTWD,
 		remaining: subItem.remaining,
+		stock: record.sub[index].stock,
 		image: subItem.image,
-		image_description: suffix === "_zh" ? subItem.image_description_zh : subItem.image_description_en
+		image_meta: subItem.image_meta,
+		image_description: localized(subItem, "image_description"),
+		start_time: subItem.start_time,
+		untranslated: untranslated(subItem, LOCALIZED_SUB_ITEM_FIELDS)
 	}));
 
 	return {
 		id,
-		name: suffix === "_zh" ? rawData.name_zh : rawData.name_en,
+		name: localized(rawData, "name"),
 		order: rawData.order,
 		quantity: rawData.quantity,
 		remaining: rawData.remaining,
+		stock: record.stock,
 		unit: rawData.unit,
 		type: translateType(rawData.type, locale),
-		global_description: suffix === "_zh" ? rawData.global_description_zh : rawData.global_description_en,
-		talent_recruitment: suffix === "_zh" ? rawData.talent_recruitment_zh : rawData.talent_recruitment_en,
-		brand_exposure: suffix === "_zh" ? rawData.brand_exposure_zh : rawData.brand_exposure_en,
-		product_promotion: suffix === "_zh" ? rawData.product_promotion_zh : rawData.product_promotion_en,
+		type_key: rawData.type,
+		global_description: localized(rawData, "global_description"),
+		talent_recruitment: localized(rawData, "talent_recruitment"),
+		brand_exposure: localized(rawData, "brand_exposure"),
+		product_promotion: localized(rawData, "product_promotion"),
 		image: rawData.image,
-		image_description: suffix === "_zh" ? rawData.image_description_zh : rawData.image_description_en,
+		image_meta: rawData.image_meta,
+		image_description: localized(rawData, "image_description"),
 		price: rawData.price,
+		price_twd: record.priceTWD,
 		deadline: rawData.deadline,
+		deadline_iso: record.deadline,
+		start_time: rawData.start_time,
+		placement: record.placement,
 		talent_recruitment_order: rawData.talent_recruitment_order,
 		brand_exposure_order: rawData.brand_exposure_order,
 		product_promotion_order: rawData.product_promotion_order,
-		sub: localizedSub
+		sub: localizedSub,
+		untranslated: untranslated(rawData, LOCALIZED_ITEM_FIELDS)
 	};
 }
 
-export async function loadItemsData(locale: string = "zh-Hant"): Promise<ItemData[]> {
-	// Load the main item.json file
-	const itemsModule = await import("../data/item.json");
-	const rawItems: Record<string, ItemDataRaw> = itemsModule.default;
+let validatedItems: Promise<Record<string, ItemRecord>> | null = null;
+
+/**
+ * Load item.json and plan.json and check them against the data schema and venue.json.
+ * Throws a DataSchemaError (failing the build) when any field is invalid.
+ */
+function loadValidatedItems(): Promise<Record<string, ItemRecord>> {
+	validatedItems ??= Promise.all([import("../data/item.json"), import("../data/plan.json")]).then(([itemsModule, plansModule]) => {
+		const records = parseItemsData(itemsModule.default, loadVenueRecord());
+		parsePlansData(plansModule.default, records);
+		return records;
+	});
+	return validatedItems;
+}
+
+/**
+ * Load availability.json, checked against item.json, for the live availability refresh
+ * Throws a DataSchemaError (failing the build) when it was not written from the current item.json.
+ */
+export async function loadAvailabilityData(): Promise<AvailabilityRaw> {
+	const [records, availabilityModule] = await Promise.all([loadValidatedItems(), import("../data/availability.json")]);
+	return parseAvailabilityData(availabilityModule.default, records);
+}
+
+export async function loadItemsData(locale: string = DEFAULT_LOCALE.code): Promise<ItemData[]> {
+	const records = await loadValidatedItems();
 
 	const items: ItemData[] = [];
 
 	// Process each item
-	for (const [id, rawData] of Object.entries(rawItems)) {
+	for (const [id, record] of Object.entries(records)) {
 		try {
-			const localizedItem = extractLocalizedData(rawData, locale, id);
+			const localizedItem = extractLocalizedData(record, locale, id);
 			items.push(localizedItem);
 		} catch (error) {
 			console.error(`Failed to load item data for ID ${id}:`, error);
@@ -162,7 +154,7 @@ export async function loadItemsData(locale: string = "zh-Hant"): Promise<ItemDat
 	return items.sort((a, b) => a.id.localeCompare(b.id));
 }
 
-export async function loadItemData(id: string, locale: string = "zh-Hant"): Promise<ItemData | null> {
+export async function loadItemData(id: string, locale: string = DEFAULT_LOCALE.code): Promise<ItemData | null> {
 	try {
 		const allItems = await loadItemsData(locale);
 		return allItems.find(item => item.id === id) || null;
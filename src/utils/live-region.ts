@@ -0,0 +1,51 @@
+/**
+ * Screen reader announcements for changes that happen away from the focused element
+ *
+ * Markup: a visually hidden element with role="status" (see #cartAnnouncer in Items.astro).
+ * Cart announcements are built from its localized templates data-added, data-removed and
+ * data-quantity, which contain "{name}" and "{quantity}".
+ */
+
+import type { InterestedItem } from "./cart-store.js";
+
+const ANNOUNCE_DELAY_MS = 50;
+
+/**
+ * Read a message out through a live region
+ * @param region - Element with role="status"; nothing happens when it is missing
+ * @param message - Text to announce
+ */
+export function announce(region: HTMLElement | null, message: string): void {
+	if (!region || !message) return;
+
+	// Screen readers only read changed content, so clear it first to repeat the same message
+	region.textContent = "";
+	setTimeout(() => {
+		region.textContent = message;
+	}, ANNOUNCE_DELAY_MS);
+}
+
+/**
+ * Describe what changed in the interest list
+ * @param previous - The list before the change
+ * @param next - The list after the change
+ * @param labels - Localized templates, e.g. { added: "Added {name} to interested items", ... }
+ * @returns One sentence per added, removed or re-counted item
+ */
+export function describeCartChanges(previous: InterestedItem[], next: InterestedItem[], labels: { added: string; removed: string; quantity: string }): string {
+	const previousById = new Map(previous.map(item => [item.id, item]));
+	const nextIds = new Set(next.map(item => item.id));
+	const messages: string[] = [];
+
+	next.forEach(item => {
+		const before = previousById.get(item.id);
+		if (!before) {
+			messages.push(labels.added.replace("{name}", item.title));
+		} else if ((before.quantity ?? 1) !== (item.quantity ?? 1)) {
+			messages.push(labels.quantity.replace("{name}", item.title).replace("{quantity}", String(item.quantity ?? 1)));
+		}
+	});
+	previous.filter(item => !nextIds.has(item.id)).forEach(item => messages.push(labels.removed.replace("{name}", item.title)));
+
+	return messages.join(" ");
+}
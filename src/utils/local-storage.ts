@@ -1,138 +1,84 @@
-export interface InterestedItem {
-	id: string;
-	title: string;
-	category: string;
-	image: string;
-	deadline: string;
-	price?: string; // Price like "$40,000" or plan info like "包含在領航級"
-	minimalPlan?: string; // The minimal plan that includes this item (plan id like "navigator")
-}
-
-declare global {
-	interface Window {
-		dataLayer: any[];
-	}
-}
-
-const INTEREST_ITEMS_KEY = "interestItems";
-
-function dispatchItemsChangeEvent(): void {
-	if (typeof window === "undefined") return;
+/**
+ * Values of the sponsor form kept between visits; the interest list lives in cart-store.ts
+ */
 
-	const event = new CustomEvent("itemsChange", {
-		detail: { items: getInterestedItems() }
-	});
-	window.dispatchEvent(event);
+export interface SponsorDetails {
+	organization: string;
+	department: string;
+	name: string;
+	contact: string;
 }
 
-export function getInterestedItems(): InterestedItem[] {
-	if (typeof window === "undefined") return [];
+const SPONSOR_DETAILS_KEY = "sponsorDetails";
 
-	try {
-		const items = localStorage.getItem(INTEREST_ITEMS_KEY);
-		return items ? JSON.parse(items) : [];
-	} catch (error) {
-		console.error("Error getting interested items from localStorage:", error);
-		return [];
-	}
-}
-
-export function addInterestedItem(item: InterestedItem): boolean {
-	if (typeof window === "undefined") return false;
+/**
+ * Get the sponsor details last typed into the sponsor form, used to address the quotation
+ * @returns The saved details, with empty strings for missing fields
+ */
+export function getSponsorDetails(): SponsorDetails {
+	const empty: SponsorDetails = { organization: "", department: "", name: "", contact: "" };
+	if (typeof window === "undefined") return empty;
 
 	try {
-		const items = getInterestedItems();
-		const existingIndex = items.findIndex(i => i.id === item.id);
-
-		if (existingIndex === -1) {
-			items.push(item);
-			const price = item.price ? parseInt(item.price.replace(/[^0-9]/g, "")) : 0;
-			window.dataLayer.push({
-				event: "add_to_cart",
-				ecommerce: {
-					currency: "TWD",
-					value: price,
-					items: [
-						{
-							item_id: item.id,
-							item_name: item.title || "unknown",
-							item_category: "2026 CFS",
-							price
-						}
-					]
-				},
-				page_path: window.location.pathname
-			});
-			localStorage.setItem(INTEREST_ITEMS_KEY, JSON.stringify(items));
-			dispatchItemsChangeEvent();
-			return true;
-		}
-		return false;
+		const saved = localStorage.getItem(SPONSOR_DETAILS_KEY);
+		return saved ? { ...empty, ...JSON.parse(saved) } : empty;
 	} catch (error) {
-		console.error("Error adding interested item to localStorage:", error);
-		return false;
+		console.error("Error getting sponsor details from localStorage:", error);
+		return empty;
 	}
 }
 
-export function removeInterestedItem(itemId: string): boolean {
+/**
+ * Save the sponsor details so the quotation can be addressed to the sponsor
+ * @param details - Values from the sponsor form
+ * @returns true if saved, false otherwise
+ */
+export function saveSponsorDetails(details: SponsorDetails): boolean {
 	if (typeof window === "undefined") return false;
 
 	try {
-		const items = getInterestedItems();
-		const filteredItems = items.filter(item => item.id !== itemId);
-		localStorage.setItem(INTEREST_ITEMS_KEY, JSON.stringify(filteredItems));
-		dispatchItemsChangeEvent();
+		localStorage.setItem(SPONSOR_DETAILS_KEY, JSON.stringify(details));
 		return true;
 	} catch (error) {
-		console.error("Error removing interested item from localStorage:", error);
+		console.error("Error saving sponsor details to localStorage:", error);
 		return false;
 	}
 }
 
-export function isItemInterested(itemId: string): boolean {
-	if (typeof window === "undefined") return false;
-
-	const items = getInterestedItems();
-	return items.some(item => item.id === itemId);
-}
+const INQUIRY_DRAFT_KEY = "inquiryDraft";
 
-export function clearInterestedItems(): boolean {
-	if (typeof window === "undefined") return false;
+/**
+ * Get the unsent message of the sponsor form; the other fields are kept as sponsor details
+ * @returns The saved message, or an empty string
+ */
+export function getInquiryDraft(): string {
+	if (typeof window === "undefined") return "";
 
 	try {
-		localStorage.removeItem(INTEREST_ITEMS_KEY);
-		dispatchItemsChangeEvent();
-		return true;
+		return localStorage.getItem(INQUIRY_DRAFT_KEY) ?? "";
 	} catch (error) {
-		console.error("Error clearing interested items from localStorage:", error);
-		return false;
+		console.error("Error getting inquiry draft from localStorage:", error);
+		return "";
 	}
 }
 
 /**
- * Check if a deadline has passed
- * @param deadline - Deadline string in format "YYYY/MM/DD"
- * @returns true if deadline has passed, false otherwise
+ * Save the message of the sponsor form while it is being typed
+ * @param message - The message without the interest list; an empty message removes the draft
+ * @returns true if saved, false otherwise
  */
-export function isDeadlinePassed(deadline: string): boolean {
-	if (!deadline || deadline === "") return false;
+export function saveInquiryDraft(message: string): boolean {
+	if (typeof window === "undefined") return false;
 
 	try {
-		// Parse the deadline (format: "YYYY/MM/DD")
-		const deadlineDate = new Date(deadline);
-		// Validate the date
-		if (isNaN(deadlineDate.getTime())) {
-			console.error("Invalid deadline date string:", deadline);
-			return false;
+		if (message) {
+			localStorage.setItem(INQUIRY_DRAFT_KEY, message);
+		} else {
+			localStorage.removeItem(INQUIRY_DRAFT_KEY);
 		}
-		// Set to end of day for the deadline
-		deadlineDate.setHours(23, 59, 59, 999);
-
-		const now = new Date();
-
-		return now > deadlineDate;
+		return true;
 	} catch (error) {
-		console.error("Error parsing deadline:", error);
+		console.error("Error saving inquiry draft to localStorage:", error);
 		return false;
 	}
 }
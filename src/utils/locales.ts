@@ -0,0 +1,126 @@
+/**
+ * Locale registry
+ *
+ * Every src/i18n/<code>.json with a "locale" block is an edition of the site. The block says
+ * where the edition lives and which data fields it reads, so page routes, item fields, the
+ * sitemap and the language switcher all follow the i18n files:
+ *
+ * "locale": { "label": "日本語", "path": "ja", "field": "ja", "hreflang": "ja-JP", "order": 3 }
+ *
+ * - path: URL segment under the site base; "" for the default edition served at the root
+ * - field: suffix of the localized fields in item.json / plan.json, e.g. name_ja
+ */
+
+export const BASE_PATH = "/2026/cfs";
+
+interface LocaleMeta {
+	label: string; // Name of the language in itself, shown in the language switcher
+	path: string;
+	field: string;
+	hreflang: string;
+	order: number;
+}
+
+export interface Locale extends LocaleMeta {
+	code: string; // File name of the i18n JSON, also used as <html lang>
+}
+
+// Only the "locale" block of each file is bundled, not the translations
+const localeMetas = import.meta.glob<LocaleMeta | undefined>("../i18n/*.json", { eager: true, import: "locale" });
+
+export const LOCALES: Locale[] = Object.entries(localeMetas)
+	.filter((entry): entry is [string, LocaleMeta] => entry[1] !== undefined)
+	.map(([file, meta]) => ({ ...meta, code: file.replace(/^.*\/|\.json$/g, "") }))
+	.sort((a, b) => a.order - b.order);
+
+export const DEFAULT_LOCALE: Locale = LOCALES.find(locale => locale.path === "") ?? LOCALES[0];
+
+/**
+ * Get a locale by its code
+ * @param code - Locale code, e.g. "zh-Hant" or "en"
+ * @returns The locale, or the default locale for unknown codes
+ */
+export function getLocale(code: string | undefined): Locale {
+	return LOCALES.find(locale => locale.code === code) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Get the root URL of an edition
+ * @param code - Locale code
+ * @param path - Path inside the edition, e.g. "item/12/"
+ * @returns URL path like "/2026/cfs/en/item/12/"
+ */
+export function getLocalePath(code: string, path: string = ""): string {
+	const { path: localePath } = getLocale(code);
+	return `${BASE_PATH}/${localePath ? `${localePath}/` : ""}${path}`;
+}
+
+/**
+ * Work out which edition a URL path belongs to
+ * @param pathname - URL path, e.g. "/2026/cfs/en/item/12/"
+ * @returns The locale and the path inside the edition ("item/12/")
+ */
+export function parseLocalePath(pathname: string): { locale: Locale; path: string } {
+	const path = pathname.startsWith(`${BASE_PATH}/`) ? pathname.slice(BASE_PATH.length + 1) : pathname.replace(/^\//, "");
+	const [segment, ...rest] = path.split("/");
+	const locale = LOCALES.find(l => l.path !== "" && l.path === segment);
+
+	return locale ? { locale, path: rest.join("/") } : { locale: DEFAULT_LOCALE, path };
+}
+
+/**
+ * Static paths of the [locale] routes: every edition except the default one
+ */
+export function getLocaleStaticPaths() {
+	return LOCALES.filter(locale => locale !== DEFAULT_LOCALE).map(locale => ({
+		params: { locale: locale.path },
+		props: { lang: locale.code }
+	}));
+}
+
+/**
+ * Read a localized field such as name_zh or name_en
+ * @param record - Item, sub-item or plan from item.json / plan.json
+ * @param field - Field name without the locale suffix, e.g. "name"
+ * @param code - Locale code
+ * @returns The value in that language, or the default language's value when it is missing
+ */
+export function getLocalizedField(record: object, field: string, code: string): string {
+	const values = record as Record<string, unknown>;
+	const value = values[`${field}_${getLocale(code).field}`];
+	if (typeof value === "string" && value !== "") return value;
+
+	const fallback = values[`${field}_${DEFAULT_LOCALE.field}`];
+	return typeof fallback === "string" ? fallback : "";
+}
+
+/**
+ * Whether getLocalizedField falls back to the default language for a field
+ * @param record - Item, sub-item or plan from item.json / plan.json
+ * @param field - Field name without the locale suffix, e.g. "global_description"
+ * @param code - Locale code
+ * @returns true when the field is empty in that language but not in the default one
+ */
+export function isTranslationMissing(record: object, field: string, code: string): boolean {
+	const values = record as Record<string, unknown>;
+	const isBlank = (value: unknown) => typeof value !== "string" || value.trim() === "";
+
+	return getLocale(code) !== DEFAULT_LOCALE && isBlank(values[`${field}_${getLocale(code).field}`]) && !isBlank(values[`${field}_${DEFAULT_LOCALE.field}`]);
+}
+
+export interface DataLabels {
+	plan_included: string; // Price shown for items included in a sponsorship tier
+	item_types: Record<string, string>; // Item types as written in the sheet → display name
+}
+
+const dataLabels = import.meta.glob<DataLabels | undefined>("../i18n/*.json", { eager: true, import: "data_labels" });
+
+/**
+ * Get the labels used when showing item.json / plan.json data
+ * @param code - Locale code
+ * @returns The "data_labels" block of the locale's i18n file, or the default locale's
+ */
+export function getDataLabels(code: string): DataLabels {
+	const labelsOf = (locale: Locale) => dataLabels[`../i18n/${locale.code}.json`];
+	return labelsOf(getLocale(code)) ?? labelsOf(DEFAULT_LOCALE) ?? { plan_included: "", item_types: {} };
+}
@@ -0,0 +1,44 @@
+/**
+ * Load the i18n messages of a page
+ *
+ * Keys missing from a locale's file are filled in from the default locale's file, so a
+ * translation that lags behind shows Chinese text instead of nothing. Run
+ * `pnpm check-translations` to list those keys.
+ */
+
+import { DEFAULT_LOCALE, getLocale } from "./locales.js";
+
+type Messages = Record<string, any>;
+
+const messageFiles = import.meta.glob<Messages>("../i18n/*.json", { import: "default" });
+
+function isPlainObject(value: unknown): value is Messages {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function fillMissingMessages(target: unknown, fallback: unknown): unknown {
+	if (target === undefined || target === "") return fallback;
+	if (!isPlainObject(target) || !isPlainObject(fallback)) return target;
+
+	// Blocks keyed by their own text (timeline dates, chart labels) differ in every language
+	const fallbackKeys = Object.keys(fallback);
+	if (fallbackKeys.length > 0 && !fallbackKeys.some(key => key in target)) return target;
+
+	const filled: Messages = { ...target };
+	fallbackKeys.forEach(key => (filled[key] = fillMissingMessages(target[key], fallback[key])));
+	return filled;
+}
+
+/**
+ * Get the messages of a locale
+ * @param code - Locale code
+ * @returns Parsed src/i18n/<code>.json with the default locale's messages as fallback
+ */
+export async function getMessages(code: string): Promise<Messages> {
+	const loadFile = (localeCode: string) => messageFiles[`../i18n/${localeCode}.json`]();
+	const locale = getLocale(code);
+	const messages = await loadFile(locale.code);
+
+	if (locale === DEFAULT_LOCALE) return messages;
+	return fillMissingMessages(messages, await loadFile(DEFAULT_LOCALE.code)) as Messages;
+}
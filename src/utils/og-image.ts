@@ -0,0 +1,166 @@
+/**
+ * Social cards for item pages
+ *
+ * Every item page of every edition gets a 1200×630 PNG rendered at build time by
+ * src/pages/og/[lang]/[id].png.ts: the item's image from public/items on top, and its name,
+ * price and sale status below. The text is an SVG layer drawn with the fonts of the build
+ * machine, which is why the deploy workflow installs Noto Sans CJK.
+ */
+
+import path from "node:path";
+import sharp from "sharp";
+import { BASE_PATH } from "./locales.js";
+import { formatDeadlineDate } from "./deadline.js";
+import { isSoldOut } from "./item-status.js";
+import { findMinimalPlanForItem, getPlanName } from "./plan-helper.js";
+import { formatCurrency } from "./price.js";
+import type { ItemData } from "./items-loader.js";
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+const IMAGE_HEIGHT = 340;
+const PADDING = 60;
+const BRAND_COLOR = "#77B55A";
+const FONT_FAMILY = "'Noto Sans CJK TC', 'Noto Sans TC', 'Noto Sans', sans-serif";
+
+export interface OgCard {
+	eyebrow: string; // Small line above the title, e.g. "SITCON 2026 贊助項目"
+	title: string;
+	price: string; // Price, price range or the tier that includes the item
+	details: string[]; // Remaining stock and deadline
+	image: string | null; // File path of the item image
+}
+
+/**
+ * Get the URL of an item's social card
+ * @param code - Locale code
+ * @param id - Item ID
+ * @returns URL path like "/2026/cfs/og/en/12.png"
+ */
+export function getItemOgImagePath(code: string, id: string): string {
+	return `${BASE_PATH}/og/${code}/${id}.png`;
+}
+
+function getPriceText(item: ItemData, lang: string, includedIn: string): string {
+	if (item.price) return item.price;
+
+	const subPrices = item.sub.map(sub => sub.price_twd).filter((price): price is number => price !== null);
+	if (subPrices.length > 0) {
+		const [low, high] = [Math.min(...subPrices), Math.max(...subPrices)];
+		return low === high ? formatCurrency(low) : `${formatCurrency(low)} – ${formatCurrency(high)}`;
+	}
+
+	const plan = findMinimalPlanForItem(item.id);
+	return plan ? includedIn.replace("{tier}", getPlanName(plan, lang)) : "";
+}
+
+function getRemainingCount(item: ItemData): number | null {
+	const stocks = item.sub.length > 0 ? item.sub.map(sub => sub.stock) : [item.stock];
+	const limited = stocks.filter(stock => stock.kind === "limited");
+	return limited.length === stocks.length ? limited.reduce((sum, stock) => sum + stock.remaining, 0) : null;
+}
+
+/**
+ * Collect what an item's social card shows
+ * @param item - Localized item
+ * @param lang - Locale code of the item
+ * @param t - Messages of that locale
+ * @param imagesDir - Directory of the item images
+ */
+export function getItemOgCard(item: ItemData, lang: string, t: Record<string, any>, imagesDir: string = "public/items"): OgCard {
+	const details: string[] = [];
+	const remaining = getRemainingCount(item);
+	const unit = t.global.unit[item.unit] || item.unit;
+
+	if (isSoldOut(item)) {
+		details.push(t.global.sold_out);
+	} else if (remaining !== null) {
+		details.push(`${t.global.remaining} ${remaining} ${unit}`.trim());
+	}
+	if (item.deadline) details.push(`${formatDeadlineDate(item.deadline)} ${t.global.deadline}`);
+
+	return {
+		eyebrow: t.meta.og_eyebrow,
+		title: item.name,
+		price: getPriceText(item, lang, t.meta.og_included_in),
+		details,
+		image: item.image ? path.join(imagesDir, item.image) : null
+	};
+}
+
+function escapeXml(text: string): string {
+	return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// Rough advance width in em: CJK and full-width characters are square, Latin text is narrower
+function measureText(text: string): number {
+	return [...text].reduce((width, char) => width + (/[⺀-￯]/.test(char) ? 1 : char === " " ? 0.3 : 0.6), 0);
+}
+
+/**
+ * Break text into lines that fit a width, keeping Latin words whole
+ * @param text - Text to wrap
+ * @param maxWidth - Line width in em
+ * @param maxLines - Lines to keep; the last one ends with "…" when text is cut
+ */
+export function wrapText(text: string, maxWidth: number, maxLines: number): string[] {
+	const tokens = text.match(/[⺀-￯]|[^\s⺀-￯]+|\s+/g) ?? [];
+	const lines: string[] = [];
+	let line = "";
+
+	for (const token of tokens) {
+		if (measureText(line + token) <= maxWidth || line.trim() === "") {
+			line += token;
+			continue;
+		}
+		lines.push(line.trim());
+		line = token.trim();
+	}
+	if (line.trim()) lines.push(line.trim());
+
+	if (lines.length <= maxLines) return lines;
+
+	let last = lines[maxLines - 1];
+	while (last && measureText(`${last}…`) > maxWidth) last = [...last].slice(0, -1).join("");
+	return [...lines.slice(0, maxLines - 1), `${last.trimEnd()}…`];
+}
+
+function renderTextLayer(card: OgCard): string {
+	const textWidth = OG_IMAGE_WIDTH - PADDING * 2;
+	const titleSize = 48;
+	const titleLines = wrapText(card.title, textWidth / titleSize, 2);
+	const titleTop = IMAGE_HEIGHT + 112;
+	const details = card.details.join("  ·  ");
+
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}">
+	${card.image ? "" : `<rect width="${OG_IMAGE_WIDTH}" height="${IMAGE_HEIGHT}" fill="${BRAND_COLOR}" opacity="0.3" />`}
+	<rect y="${IMAGE_HEIGHT}" width="${OG_IMAGE_WIDTH}" height="8" fill="${BRAND_COLOR}" />
+	<g font-family="${FONT_FAMILY}">
+		<text x="${PADDING}" y="${IMAGE_HEIGHT + 56}" font-size="24" fill="#666">${escapeXml(card.eyebrow)}</text>
+		${titleLines.map((line, index) => `<text x="${PADDING}" y="${titleTop + index * 58}" font-size="${titleSize}" font-weight="700" fill="#1a1a1a">${escapeXml(line)}</text>`).join("\n\t\t")}
+		<text x="${PADDING}" y="${OG_IMAGE_HEIGHT - 40}" font-size="36" font-weight="700" fill="${BRAND_COLOR}">${escapeXml(card.price)}</text>
+		<text x="${OG_IMAGE_WIDTH - PADDING}" y="${OG_IMAGE_HEIGHT - 42}" font-size="26" fill="#666" text-anchor="end">${escapeXml(details)}</text>
+	</g>
+</svg>`;
+}
+
+/**
+ * Render a social card
+ * @param card - Content from getItemOgCard
+ * @returns PNG image
+ */
+export async function renderOgCard(card: OgCard): Promise<Buffer> {
+	const layers: sharp.OverlayOptions[] = [];
+
+	if (card.image) {
+		const image = await sharp(card.image).resize(OG_IMAGE_WIDTH, IMAGE_HEIGHT, { fit: "cover" }).toBuffer();
+		layers.push({ input: image, top: 0, left: 0 });
+	}
+	layers.push({ input: Buffer.from(renderTextLayer(card)), top: 0, left: 0 });
+
+	return sharp({ create: { width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT, channels: 3, background: "#ffffff" } })
+		.composite(layers)
+		.png()
+		.toBuffer();
+}
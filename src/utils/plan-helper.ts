@@ -1,25 +1,67 @@
 import planData from "@data/plan.json" with { type: "json" };
 import itemData from "@data/item.json" with { type: "json" };
-import type { ItemDataRaw } from "./items-loader.js";
-
-interface Plan {
-	id: string;
-	name_zh: string;
-	name_en: string;
-	price: string;
-	order: number;
-	benefits: Array<{
-		item_id: string;
-		item_name: string;
-		quantity: string;
-	}>;
-}
+import type { ItemDataRaw, PlanRaw } from "./data-schema.js";
+import { DEFAULT_LOCALE, getDataLabels, getLocalizedField } from "./locales.js";
+
+export type Plan = PlanRaw;
 
 const plans: Plan[] = Object.values(planData);
 
+/**
+ * Get all sponsorship plans
+ * @returns Plans sorted by order (most expensive tier first)
+ */
+export function getAllPlans(): Plan[] {
+	return [...plans].sort((a, b) => a.order - b.order);
+}
+
+// Colors for tiers that have none in sheet-mapping.json
+const TIER_FALLBACK_COLORS = ["#FF928A", "#537FF1", "#6FD195", "#77B55A", "#F2B84B", "#A47CF3"];
+
+/**
+ * Get the heading color of a plan
+ * @param plan The plan object from plan.json
+ * @returns The color from plan.json, or one from the fallback palette by plan order
+ */
+export function getPlanColor(plan: Plan): string {
+	return plan.display.color || TIER_FALLBACK_COLORS[(plan.order - 1) % TIER_FALLBACK_COLORS.length];
+}
+
+/**
+ * Get the localized name of a plan
+ * @param plan The plan object from plan.json
+ * @param lang Locale code
+ */
+export function getPlanName(plan: Plan, lang: string = DEFAULT_LOCALE.code): string {
+	return getLocalizedField(plan, "name", lang);
+}
+
 // Item data is now statically imported at build time
 const items: Record<string, ItemDataRaw> = itemData as Record<string, ItemDataRaw>;
 
+const SUB_ITEM_SEPARATOR = "-sub-";
+
+/**
+ * Get the cart ID of a sub-item
+ * @param itemId The parent item ID
+ * @param subItemId The sub-item's own ID from item.json
+ * @returns e.g. "12-sub-4a49e0ad"
+ */
+export function getSubItemCartId(itemId: string, subItemId: string): string {
+	return `${itemId}${SUB_ITEM_SEPARATOR}${subItemId}`;
+}
+
+/**
+ * Split a sub-item cart ID
+ * @param cartId A cart ID such as "12-sub-4a49e0ad"
+ * @returns The parent item ID and sub-item ID, or null for items and tiers
+ */
+export function parseSubItemCartId(cartId: string): { itemId: string; subItemId: string } | null {
+	const separatorIndex = cartId.indexOf(SUB_ITEM_SEPARATOR);
+	if (separatorIndex <= 0) return null;
+	return { itemId: cartId.slice(0, separatorIndex), subItemId: cartId.slice(separatorIndex + SUB_ITEM_SEPARATOR.length) };
+}
+
 /**
  * Find an item by Chinese name (name_zh) or by ID
  * @param itemNameOrId The Chinese name or ID to search for
@@ -31,22 +73,16 @@ export function findItemByNameOrId(itemNameOrId: string): { itemId: string; item
 		return { itemId: itemNameOrId, itemData: items[itemNameOrId] };
 	}
 
-	// Check for sub-item ID format (e.g., "12-sub-0")
-	if (itemNameOrId.includes("-sub-")) {
-		const [parentId, , subIndexStr] = itemNameOrId.split("-");
-		const subIndex = parseInt(subIndexStr, 10);
-
-		// Validate that subIndex is a valid number
-		if (isNaN(subIndex) || subIndex < 0) {
-			return null;
-		}
-
-		const item = items[parentId];
-		if (item && item.sub && item.sub[subIndex]) {
+	// Check for sub-item ID format (e.g., "12-sub-4a49e0ad")
+	const subItemCartId = parseSubItemCartId(itemNameOrId);
+	if (subItemCartId) {
+		const item = items[subItemCartId.itemId];
+		const subItem = item?.sub.find(sub => sub.id === subItemCartId.subItemId);
+		if (item && subItem) {
 			return {
 				itemId: itemNameOrId,
 				itemData: item,
-				subItemData: item.sub[subIndex]
+				subItemData: subItem
 			};
 		}
 	}
@@ -59,14 +95,13 @@ export function findItemByNameOrId(itemNameOrId: string): { itemId: string; item
 
 		// Also check sub-items
 		if (item.sub && Array.isArray(item.sub)) {
-			for (let i = 0; i < item.sub.length; i++) {
-				if (item.sub[i].name_zh === itemNameOrId) {
-					return {
-						itemId: `${id}-sub-${i}`,
-						itemData: item,
-						subItemData: item.sub[i]
-					};
-				}
+			const subItem = item.sub.find(sub => sub.name_zh === itemNameOrId);
+			if (subItem) {
+				return {
+					itemId: getSubItemCartId(id, subItem.id),
+					itemData: item,
+					subItemData: subItem
+				};
 			}
 		}
 	}
@@ -77,19 +112,16 @@ export function findItemByNameOrId(itemNameOrId: string): { itemId: string; item
 /**
  * Get localized name for a plan benefit
  * @param benefit The benefit object from plan.json
- * @param lang Language code ("zh-Hant" or "en")
+ * @param lang Locale code, e.g. "zh-Hant" or "en"
  * @returns Localized name string
  */
-export function getBenefitLocalizedName(benefit: { item_id: string; item_name: string; quantity: string }, lang: string = "zh-Hant"): string {
+export function getBenefitLocalizedName(benefit: { item_id: string; item_name: string; quantity: string }, lang: string = DEFAULT_LOCALE.code): string {
 	// If we have an item_id, use it to look up the item
 	if (benefit.item_id) {
 		const result = findItemByNameOrId(benefit.item_id);
 		if (result) {
 			// Use sub-item name if available, otherwise use parent item name
-			if (result.subItemData) {
-				return lang === "en" ? result.subItemData.name_en : result.subItemData.name_zh;
-			}
-			return lang === "en" ? result.itemData.name_en : result.itemData.name_zh;
+			return getLocalizedField(result.subItemData ?? result.itemData, "name", lang);
 		}
 	}
 
@@ -98,10 +130,7 @@ export function getBenefitLocalizedName(benefit: { item_id: string; item_name: s
 		const result = findItemByNameOrId(benefit.item_name);
 		if (result) {
 			// Use sub-item name if available, otherwise use parent item name
-			if (result.subItemData) {
-				return lang === "en" ? result.subItemData.name_en : result.subItemData.name_zh;
-			}
-			return lang === "en" ? result.itemData.name_en : result.itemData.name_zh;
+			return getLocalizedField(result.subItemData ?? result.itemData, "name", lang);
 		}
 	}
 
@@ -132,19 +161,19 @@ export function findMinimalPlanForItem(itemId: string): Plan | null {
 
 /**
  * Get the display price for an item
- * @param itemId The item ID (can be sub-item ID like "1-sub-0")
+ * @param itemId The item ID (can be sub-item ID like "1-sub-6291e783")
  * @param itemPrice The standalone item price (e.g., "$40,000")
- * @param lang Language for display ("zh-Hant" or "en")
+ * @param lang Locale code for display, e.g. "zh-Hant" or "en"
  * @returns Display string for price
  */
-export function getItemDisplayPrice(itemId: string, itemPrice: string, lang: string = "zh-Hant"): string {
-	// Extract parent item ID if this is a sub-item (format: "parentId-sub-index")
-	const parentItemId = itemId.includes("-sub-") ? itemId.split("-sub-")[0] : itemId;
+export function getItemDisplayPrice(itemId: string, itemPrice: string, lang: string = DEFAULT_LOCALE.code): string {
+	// Extract parent item ID if this is a sub-item (format: "parentId-sub-subItemId")
+	const parentItemId = parseSubItemCartId(itemId)?.itemId ?? itemId;
 
 	const minimalPlan = findMinimalPlanForItem(parentItemId);
 
 	if (minimalPlan) {
-		return lang === "en" ? "Plan Included Item" : "方案包含項目";
+		return getDataLabels(lang).plan_included;
 	}
 
 	// If there's a price, return it, otherwise return empty string (no "洽詢")
@@ -159,3 +188,44 @@ export function getItemDisplayPrice(itemId: string, itemPrice: string, lang: str
 export function isItemInAnyPlan(itemId: string): boolean {
 	return plans.some(plan => plan.benefits.some(benefit => benefit.item_id === itemId));
 }
+
+type PlanBenefit = Plan["benefits"][number];
+
+/**
+ * Get the key that identifies a benefit across tiers
+ * @param benefit The benefit object from plan.json
+ * @returns The item ID, or the item name for benefits like social media posts that have no item
+ */
+export function getBenefitKey(benefit: PlanBenefit): string {
+	return benefit.item_id || benefit.item_name;
+}
+
+/**
+ * Line up the benefits of several plans, one row per benefit
+ * @param plansToAlign Plans in column order
+ * @returns Rows in the order benefits first appear; a plan without the benefit gets undefined
+ */
+export function getPlanBenefitRows(plansToAlign: Plan[]): { key: string; benefits: (PlanBenefit | undefined)[] }[] {
+	const keys = [...new Set(plansToAlign.flatMap(plan => plan.benefits.map(getBenefitKey)))];
+
+	return keys.map(key => ({
+		key,
+		benefits: plansToAlign.map(plan => plan.benefits.find(benefit => getBenefitKey(benefit) === key))
+	}));
+}
+
+/**
+ * Find the benefits that two plans do not share in the same quantity
+ * @param a First plan
+ * @param b Second plan
+ * @returns Keys (see getBenefitKey) of benefits whose quantity differs; a missing benefit counts as an empty quantity
+ */
+export function getDifferingBenefitKeys(a: Plan, b: Plan): Set<string> {
+	const normalize = (benefit: PlanBenefit | undefined) => (benefit?.quantity ?? "").trim().toLowerCase();
+
+	return new Set(
+		getPlanBenefitRows([a, b])
+			.filter(row => normalize(row.benefits[0]) !== normalize(row.benefits[1]))
+			.map(row => row.key)
+	);
+}
@@ -0,0 +1,134 @@
+/**
+ * Works out the cheapest way to get the items in the interest list:
+ * one sponsorship tier from plan.json plus à-la-carte items, or à-la-carte only
+ */
+
+import { findItemByNameOrId, getAllPlans, type Plan } from "./plan-helper.js";
+import { parsePrice } from "./price.js";
+
+export interface CartLine {
+	id: string;
+	quantity: number;
+}
+
+export interface OptimizedLine {
+	id: string;
+	quantity: number;
+	coveredQuantity: number; // Units included in the plan
+	alaCarteQuantity: number; // Units bought separately
+	unitPrice: number | null; // null when the item cannot be bought separately
+	cost: number;
+}
+
+export interface PlanOption {
+	plan: Plan | null; // null means à-la-carte only
+	planPrice: number;
+	lines: OptimizedLine[];
+	total: number;
+	feasible: boolean; // false when an uncovered item has no standalone price
+}
+
+export interface PlanRecommendation {
+	best: PlanOption | null;
+	alaCarte: PlanOption;
+	savings: number | null; // Compared with buying everything separately, null if that is impossible
+}
+
+/**
+ * Get the standalone price of an item or sub-item
+ * @param itemId The item ID (can be sub-item ID like "1-sub-6291e783")
+ * @returns Price in TWD, or null if the item is not sold separately
+ */
+function getUnitPrice(itemId: string): number | null {
+	const result = findItemByNameOrId(itemId);
+	if (!result) return null;
+
+	const price = parsePrice(result.subItemData ? result.subItemData.price : result.itemData.price);
+	return price > 0 ? price : null;
+}
+
+/**
+ * Get how many units of each item a plan includes
+ * @param plan The plan to inspect
+ * @returns Map of item ID (or sub-item ID) to included quantity
+ */
+function getPlanAllowances(plan: Plan): Map<string, number> {
+	const allowances = new Map<string, number>();
+
+	plan.benefits.forEach(benefit => {
+		const quantity = benefit.quantity.trim();
+		if (!quantity) return;
+
+		// Benefits without item_id (e.g. social media posts) are matched by name to sub-items
+		const itemId = benefit.item_id || findItemByNameOrId(benefit.item_name)?.itemId;
+		if (!itemId) return;
+
+		// "O" and other non-numeric marks mean a single unit is included
+		const count = /^\d+$/.test(quantity) ? parseInt(quantity, 10) : 1;
+		allowances.set(itemId, (allowances.get(itemId) ?? 0) + count);
+	});
+
+	return allowances;
+}
+
+function evaluateOption(lines: CartLine[], plan: Plan | null): PlanOption {
+	const allowances = plan ? getPlanAllowances(plan) : new Map<string, number>();
+	const planPrice = plan ? parsePrice(plan.price) : 0;
+	let feasible = true;
+
+	const optimizedLines = lines.map(line => {
+		const unitPrice = getUnitPrice(line.id);
+		const coveredQuantity = Math.min(allowances.get(line.id) ?? 0, line.quantity);
+		const alaCarteQuantity = line.quantity - coveredQuantity;
+
+		if (alaCarteQuantity > 0 && unitPrice === null) {
+			feasible = false;
+		}
+
+		return {
+			id: line.id,
+			quantity: line.quantity,
+			coveredQuantity,
+			alaCarteQuantity,
+			unitPrice,
+			cost: alaCarteQuantity * (unitPrice ?? 0)
+		};
+	});
+
+	return {
+		plan,
+		planPrice,
+		lines: optimizedLines,
+		total: planPrice + optimizedLines.reduce((sum, line) => sum + line.cost, 0),
+		feasible
+	};
+}
+
+/**
+ * Find the cheapest combination of one plan tier and à-la-carte items;
+ * sold-out tiers (display.remaining of 0) are left out
+ * @param lines The interest list lines; tier entries ("tier-*") are ignored
+ * @returns The best option and the savings compared with buying everything separately
+ */
+export function optimizePlanSelection(lines: CartLine[]): PlanRecommendation {
+	const itemLines = lines.filter(line => !line.id.startsWith("tier-") && line.quantity > 0);
+
+	const alaCarte = evaluateOption(itemLines, null);
+	const plans = getAllPlans().filter(plan => plan.display.remaining !== 0);
+	const options = [alaCarte, ...plans.map(plan => evaluateOption(itemLines, plan))];
+
+	// On equal totals prefer the plan, since it comes with extra benefits
+	const best = options
+		.filter(option => option.feasible)
+		.reduce<PlanOption | null>((currentBest, option) => {
+			if (!currentBest || option.total < currentBest.total) return option;
+			if (option.total === currentBest.total && currentBest.plan === null) return option;
+			return currentBest;
+		}, null);
+
+	return {
+		best,
+		alaCarte,
+		savings: best && alaCarte.feasible ? alaCarte.total - best.total : null
+	};
+}
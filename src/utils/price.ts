@@ -0,0 +1,27 @@
+/**
+ * Utility functions for working with display prices like "$40,000" or "NT$179,000"
+ */
+
+/**
+ * Parse a display price into a number
+ * @param price - Price string like "$40,000", "NT$179,000" or plan info like "方案包含項目"
+ * @returns The numeric amount in TWD, or 0 if the string is not a price
+ */
+export function parsePrice(price: string | undefined): number {
+	if (!price) return 0;
+
+	const trimmed = price.trim();
+	// Only strings starting with $ or NT$ are numeric prices
+	if (!trimmed.startsWith("$") && !trimmed.startsWith("NT$")) return 0;
+
+	return parseInt(trimmed.replace(/[NT$,\s]/g, ""), 10) || 0;
+}
+
+/**
+ * Format a TWD amount for display
+ * @param amount - Amount in TWD
+ * @returns Formatted string like "NT$40,000"
+ */
+export function formatCurrency(amount: number): string {
+	return `NT$${amount.toLocaleString("zh-TW")}`;
+}
@@ -0,0 +1,153 @@
+/**
+ * Build the printable quotation from the interest list
+ *
+ * Titles and prices are looked up again in the quotation's language, so a list collected on
+ * the Chinese page can be quoted in English. Amounts are in TWD and exclude business tax
+ * until the totals.
+ */
+
+import type { InterestedItem } from "./cart-store.js";
+import { encodeCartState, resolveCartEntries } from "./cart-share.js";
+import { findItemByNameOrId, getAllPlans } from "./plan-helper.js";
+import { SALE_TIME_ZONE, getEarliestDeadline, parseSaleTime } from "./deadline.js";
+import { parsePrice } from "./price.js";
+
+export const BUSINESS_TAX_RATE = 0.05;
+export const QUOTATION_VALID_DAYS = 30;
+const QUOTATION_NUMBER_PREFIX = "SITCON2026";
+
+export interface QuotationLine {
+	id: string;
+	title: string;
+	quantity: number;
+	unitPrice: number; // 0 when the item has no standalone price
+	amount: number;
+	priceLabel: string; // Shown instead of the price when unitPrice is 0, e.g. "方案包含項目"
+	deadline: string; // Raw deadline from item.json, "" when there is none
+}
+
+export interface Quotation {
+	number: string;
+	issuedAt: Date;
+	validUntil: Date;
+	tiers: QuotationLine[];
+	addons: QuotationLine[];
+	subtotal: number;
+	tax: number;
+	total: number;
+	hasUnpricedLines: boolean;
+}
+
+/**
+ * Get the raw deadline of an item or a tier
+ * @param id - Item, sub-item or tier ID
+ * @returns The deadline as written in the sheet; a tier closes with its earliest benefit
+ */
+function getLineDeadline(id: string): string {
+	if (id.startsWith("tier-")) {
+		const plan = getAllPlans().find(p => `tier-${p.id}` === id);
+		return plan ? getEarliestDeadline(plan.benefits.map(benefit => (benefit.item_id ? findItemByNameOrId(benefit.item_id)?.itemData.deadline : null))) : "";
+	}
+
+	return findItemByNameOrId(id)?.itemData.deadline ?? "";
+}
+
+/**
+ * Create a quotation number that stays the same for the same list on the same day
+ * @param items - The quoted items
+ * @param issuedAt - Issue time
+ * @returns Number like "SITCON2026-20260115-3K9F"
+ */
+export function getQuotationNumber(items: InterestedItem[], issuedAt: Date): string {
+	const state = encodeCartState(items.map(item => ({ id: item.id, quantity: item.quantity ?? 1 })));
+
+	// FNV-1a keeps the suffix short without pulling in a hashing library
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < state.length; i++) {
+		hash ^= state.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193) >>> 0;
+	}
+
+	const suffix = hash.toString(36).toUpperCase().padStart(4, "0").slice(-4);
+	return `${QUOTATION_NUMBER_PREFIX}-${formatQuotationDate(issuedAt, "")}-${suffix}`;
+}
+
+/**
+ * Work out how long a quotation is valid
+ * @param deadlines - Raw deadlines of the quoted items
+ * @param issuedAt - Issue time
+ * @returns QUOTATION_VALID_DAYS after issue, or the earliest upcoming item deadline if sooner
+ */
+export function getQuotationValidUntil(deadlines: string[], issuedAt: Date): Date {
+	const validUntil = new Date(issuedAt.getTime() + QUOTATION_VALID_DAYS * 24 * 60 * 60 * 1000);
+
+	// Deadlines that already passed cannot shorten the validity to before the issue date
+	const upcoming = deadlines.filter(deadline => {
+		const closesAt = parseSaleTime(deadline, "end");
+		return closesAt && closesAt > issuedAt;
+	});
+	const earliest = parseSaleTime(getEarliestDeadline(upcoming), "end");
+
+	return earliest && earliest < validUntil ? earliest : validUntil;
+}
+
+/**
+ * Format a date in Taiwan time
+ * @param date - The instant to format
+ * @param separator - Between year, month and day
+ * @returns Date like "2026/01/15"
+ */
+export function formatQuotationDate(date: Date, separator: string = "/"): string {
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat("en-US", { timeZone: SALE_TIME_ZONE, year: "numeric", month: "2-digit", day: "2-digit" }).formatToParts(date).map(part => [part.type, part.value])
+	);
+	return [parts.year, parts.month, parts.day].join(separator);
+}
+
+/**
+ * Build a quotation from the interest list
+ * @param items - Items from localStorage
+ * @param lang - Language of the quotation
+ * @param issuedAt - Issue time, for testing
+ */
+export function buildQuotation(items: InterestedItem[], lang: string, issuedAt: Date = new Date()): Quotation {
+	const { items: resolved } = resolveCartEntries(
+		items.map(item => ({ id: item.id, quantity: item.quantity ?? 1 })),
+		{ lang, deadlineLabel: "" }
+	);
+
+	const lines: QuotationLine[] = items.map(item => {
+		// Items that no longer exist keep the title and price saved with them
+		const current = resolved.find(i => i.id === item.id) ?? item;
+		const quantity = Math.max(item.quantity ?? 1, 1);
+		const unitPrice = parsePrice(current.price);
+
+		return {
+			id: item.id,
+			title: current.title,
+			quantity,
+			unitPrice,
+			amount: unitPrice * quantity,
+			priceLabel: unitPrice > 0 ? "" : current.price || "",
+			deadline: getLineDeadline(item.id)
+		};
+	});
+
+	const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+	const tax = Math.round(subtotal * BUSINESS_TAX_RATE);
+
+	return {
+		number: getQuotationNumber(items, issuedAt),
+		issuedAt,
+		validUntil: getQuotationValidUntil(
+			lines.map(line => line.deadline),
+			issuedAt
+		),
+		tiers: lines.filter(line => line.id.startsWith("tier-")),
+		addons: lines.filter(line => !line.id.startsWith("tier-")),
+		subtotal,
+		tax,
+		total: subtotal + tax,
+		hasUnpricedLines: lines.some(line => line.unitPrice === 0)
+	};
+}
@@ -0,0 +1,105 @@
+/**
+ * Keyboard navigation across a grid of cards with a single tab stop
+ *
+ * Tab enters the grid on the last focused card and leaves it after that card's own controls.
+ * The arrow keys move between cards as they are laid out on screen, Home and End jump to the
+ * first and last card, and Enter or Space activates the card (see setupCardClickHandlers).
+ * Hidden cards, e.g. those removed by a catalog filter, are skipped.
+ */
+
+const INNER_CONTROLS_SELECTOR = "a[href], button, input, select, textarea";
+
+function getVisibleItems(container: HTMLElement, itemSelector: string): HTMLElement[] {
+	return (Array.from(container.querySelectorAll(itemSelector)) as HTMLElement[]).filter(item => item.getClientRects().length > 0);
+}
+
+// Only the active card and its controls can be reached with Tab
+function setActiveItem(container: HTMLElement, itemSelector: string, active: HTMLElement | undefined): void {
+	(Array.from(container.querySelectorAll(itemSelector)) as HTMLElement[]).forEach(item => {
+		const tabIndex = item === active ? "0" : "-1";
+		item.tabIndex = Number(tabIndex);
+		item.querySelectorAll(INNER_CONTROLS_SELECTOR).forEach(control => control.setAttribute("tabindex", tabIndex));
+	});
+}
+
+/**
+ * Find the card above or below, the one closest horizontally in the nearest row
+ * @param items - Visible cards in DOM order
+ * @param current - The focused card
+ * @param direction - 1 for down, -1 for up
+ */
+function findItemInNextRow(items: HTMLElement[], current: HTMLElement, direction: 1 | -1): HTMLElement | undefined {
+	const currentRect = current.getBoundingClientRect();
+	const candidates = items.map(item => ({ item, rect: item.getBoundingClientRect() })).filter(({ rect }) => (direction === 1 ? rect.top > currentRect.top + 1 : rect.top < currentRect.top - 1));
+	if (candidates.length === 0) return undefined;
+
+	const rowTop = direction === 1 ? Math.min(...candidates.map(({ rect }) => rect.top)) : Math.max(...candidates.map(({ rect }) => rect.top));
+	return candidates.filter(({ rect }) => Math.abs(rect.top - rowTop) <= 1).sort((a, b) => Math.abs(a.rect.left - currentRect.left) - Math.abs(b.rect.left - currentRect.left))[0]?.item;
+}
+
+/**
+ * Make sure a visible card can be reached with Tab, e.g. after filtering hid the active one
+ * @param container - The grid
+ * @param itemSelector - Selector of the cards in it
+ */
+export function refreshRovingFocus(container: HTMLElement, itemSelector: string): void {
+	const items = getVisibleItems(container, itemSelector);
+	const active = items.find(item => item.tabIndex === 0) ?? items[0];
+	setActiveItem(container, itemSelector, active);
+}
+
+/**
+ * Set up roving keyboard navigation in a grid of cards
+ * @param container - The grid
+ * @param itemSelector - Selector of the cards in it, e.g. ".card"
+ */
+export function setupRovingFocus(container: HTMLElement, itemSelector: string): void {
+	refreshRovingFocus(container, itemSelector);
+
+	// Clicking a card or one of its controls also moves the tab stop there
+	container.addEventListener("focusin", event => {
+		const item = (event.target as Element).closest(itemSelector);
+		if (item instanceof HTMLElement && container.contains(item) && item.tabIndex !== 0) {
+			setActiveItem(container, itemSelector, item);
+		}
+	});
+
+	container.addEventListener("keydown", event => {
+		// Controls inside a card keep their own keys
+		const current = event.target as HTMLElement;
+		if (!current.matches(itemSelector)) return;
+
+		const items = getVisibleItems(container, itemSelector);
+		const index = items.indexOf(current);
+		if (index < 0) return;
+
+		let next: HTMLElement | undefined;
+		switch (event.key) {
+			case "ArrowRight":
+				next = items[index + 1];
+				break;
+			case "ArrowLeft":
+				next = items[index - 1];
+				break;
+			case "ArrowDown":
+				next = findItemInNextRow(items, current, 1);
+				break;
+			case "ArrowUp":
+				next = findItemInNextRow(items, current, -1);
+				break;
+			case "Home":
+				next = items[0];
+				break;
+			case "End":
+				next = items[items.length - 1];
+				break;
+			default:
+				return;
+		}
+
+		event.preventDefault();
+		if (!next) return;
+		setActiveItem(container, itemSelector, next);
+		next.focus();
+	});
+}
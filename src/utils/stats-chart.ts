@@ -0,0 +1,328 @@
+/**
+ * Charts of the audience statistics (StatsChart.astro), drawn with echarts
+ *
+ * Markup: a root element with data-stats-year holding [data-stats-chart] figures, optional
+ * [data-stats-year-option] buttons choosing the year and [data-stats-year-block] elements
+ * shown for their year only. Charts are drawn by mountStatsCharts while their dialog is open
+ * and disposed again by disposeStatsCharts, so a closed dialog keeps no echarts instances.
+ */
+
+// @ts-ignore - echarts esm interop
+import * as echarts from "echarts";
+import type { StatsChartData } from "./stats.js";
+
+type EChartsInstance = ReturnType<typeof echarts.init>;
+type ChartView = "pie" | "bar" | "trend";
+
+interface ChartConfig extends StatsChartData {
+	palette: keyof typeof PALETTES;
+	showPercentage: boolean;
+}
+
+const PALETTES = {
+	survey: ["#6CE5E8", "#40B8D5", "#2C8BBA", "#2F5F98", "#31356E", "#5E3967", "#895273", "#B97286", "#E28385"],
+	social: ["#FF6384", "#36A2EB", "#FFCE56", "#4BC0C0", "#9966FF", "#FF9F40"],
+	gender: ["#4FC3F7", "#FFB74D"]
+};
+
+const charts = new Map<HTMLElement, EChartsInstance>();
+
+function readConfig(figure: HTMLElement): ChartConfig {
+	return JSON.parse(figure.dataset.statsChart || "{}");
+}
+
+// Sizes follow the width of the chart rather than the window, as charts sit side by side on wide screens
+function getSizes(width: number) {
+	const isMobile = width <= 360;
+	const isSmallMobile = width <= 300;
+
+	return {
+		title: isSmallMobile ? 14 : isMobile ? 16 : 24,
+		label: isSmallMobile ? 9 : isMobile ? 10 : 12,
+		legend: isSmallMobile ? 9 : isMobile ? 10 : 12,
+		legendItem: isSmallMobile ? 12 : isMobile ? 15 : 20,
+		legendBottom: isSmallMobile ? 5 : isMobile ? 8 : 10,
+		pieRadius: isSmallMobile ? ["25%", "45%"] : isMobile ? ["28%", "50%"] : ["35%", "65%"],
+		pieCenter: isMobile ? ["50%", "48%"] : ["50%", "55%"],
+		titleTop: isSmallMobile ? 5 : isMobile ? 8 : 10,
+		titleGap: isSmallMobile ? 8 : isMobile ? 12 : 20
+	};
+}
+
+// Values of the chosen year, or of the closest earlier year when the metric has none that year
+function getYearValues(config: ChartConfig, year: number): { year: number; values: Record<string, number> } | null {
+	const years = Object.keys(config.values)
+		.map(Number)
+		.filter(candidate => candidate <= year)
+		.sort((a, b) => a - b);
+	const shown = years.at(-1);
+	return shown === undefined ? null : { year: shown, values: config.values[shown] };
+}
+
+function getTotal(values: Record<string, number>): number {
+	return Object.values(values).reduce((sum, value) => sum + value, 0);
+}
+
+function formatValue(config: ChartConfig, value: number): string {
+	return config.unit === "percent" ? `${value}%` : String(value);
+}
+
+function createTitle(text: string, subtext: string, sizes: ReturnType<typeof getSizes>) {
+	return {
+		text,
+		subtext,
+		left: "center",
+		top: sizes.titleTop,
+		textStyle: {
+			fontSize: sizes.title,
+			fontWeight: "bold",
+			color: "#48484A"
+		},
+		padding: [5, 0, sizes.titleGap, 0]
+	};
+}
+
+function createLegend(sizes: ReturnType<typeof getSizes>) {
+	return {
+		orient: "horizontal",
+		bottom: sizes.legendBottom,
+		left: "center",
+		itemWidth: sizes.legendItem,
+		itemHeight: sizes.legendItem,
+		textStyle: {
+			fontSize: sizes.legend
+		}
+	};
+}
+
+function createPieOption(config: ChartConfig, year: number, width: number) {
+	const sizes = getSizes(width);
+	const shown = getYearValues(config, year);
+	const colors = PALETTES[config.palette];
+	const total = shown ? getTotal(shown.values) : 0;
+
+	return {
+		title: createTitle(config.title, shown ? `SITCON ${shown.year}` : "", sizes),
+		tooltip: {
+			trigger: "item",
+			formatter: (params: any) => `${params.name}: ${formatValue(config, params.value)} (${params.percent}%)`
+		},
+		legend: createLegend(sizes),
+		series: [
+			{
+				type: "pie",
+				radius: sizes.pieRadius,
+				center: sizes.pieCenter,
+				avoidLabelOverlap: true,
+				itemStyle: {
+					borderRadius: 8,
+					borderColor: "#fff",
+					borderWidth: 2
+				},
+				label: {
+					show: true,
+					formatter: (params: any) => {
+						const percentage = ((params.value / total) * 100).toFixed(0);
+						if (config.showPercentage) {
+							return `${params.name}\n${percentage}%`;
+						}
+						return `${params.name}`;
+					},
+					fontSize: sizes.label,
+					fontWeight: "bold",
+					overflow: "break"
+				},
+				emphasis: {
+					label: {
+						show: true,
+						fontSize: sizes.label + 2,
+						fontWeight: "bold"
+					},
+					itemStyle: {
+						shadowBlur: 10,
+						shadowOffsetX: 0,
+						shadowColor: "rgba(0, 0, 0, 0.5)"
+					}
+				},
+				data: shown
+					? config.categories.map(({ key, name }, index) => ({
+							name,
+							value: shown.values[key] ?? 0,
+							itemStyle: { color: colors[index % colors.length] }
+						}))
+					: []
+			}
+		]
+	};
+}
+
+function createBarOption(config: ChartConfig, year: number, width: number) {
+	const sizes = getSizes(width);
+	const shown = getYearValues(config, year);
+	const colors = PALETTES[config.palette];
+	// The first category goes on top
+	const categories = [...config.categories].reverse();
+
+	return {
+		title: createTitle(config.title, shown ? `SITCON ${shown.year}` : "", sizes),
+		tooltip: {
+			trigger: "item",
+			formatter: (params: any) => `${params.name}: ${formatValue(config, params.value)}`
+		},
+		grid: { left: 8, right: 48, top: 80, bottom: 16, containLabel: true },
+		xAxis: { type: "value", axisLabel: { fontSize: sizes.label } },
+		yAxis: {
+			type: "category",
+			data: categories.map(category => category.name),
+			axisLabel: { fontSize: sizes.label, fontWeight: "bold" }
+		},
+		series: [
+			{
+				type: "bar",
+				label: {
+					show: true,
+					position: "right",
+					fontSize: sizes.label,
+					formatter: (params: any) => formatValue(config, params.value)
+				},
+				itemStyle: { borderRadius: [0, 4, 4, 0] },
+				data: categories.map(({ key }) => ({
+					value: shown?.values[key] ?? 0,
+					itemStyle: { color: colors[config.categories.findIndex(category => category.key === key) % colors.length] }
+				}))
+			}
+		]
+	};
+}
+
+// Each category's share of the total per year, so years with different turnouts compare fairly
+function createTrendOption(config: ChartConfig, width: number) {
+	const sizes = getSizes(width);
+	const colors = PALETTES[config.palette];
+	const years = Object.keys(config.values).sort();
+
+	return {
+		title: createTitle(config.title, years.length ? `SITCON ${years[0]}–${years.at(-1)}` : "", sizes),
+		tooltip: {
+			trigger: "axis",
+			valueFormatter: (value: number) => `${value}%`
+		},
+		legend: createLegend(sizes),
+		grid: { left: 8, right: 24, top: 80, bottom: 64, containLabel: true },
+		xAxis: { type: "category", data: years, axisLabel: { fontSize: sizes.label } },
+		yAxis: { type: "value", axisLabel: { fontSize: sizes.label, formatter: "{value}%" } },
+		series: config.categories.map(({ key, name }, index) => ({
+			type: "line",
+			name,
+			data: years.map(year => {
+				const total = getTotal(config.values[year]);
+				return total ? Math.round(((config.values[year][key] ?? 0) / total) * 1000) / 10 : 0;
+			}),
+			itemStyle: { color: colors[index % colors.length] }
+		}))
+	};
+}
+
+function getSelectedYear(figure: HTMLElement): number {
+	const root = figure.closest<HTMLElement>("[data-stats-year]");
+	return Number(root?.dataset.statsYear);
+}
+
+function renderChart(figure: HTMLElement, chart: EChartsInstance) {
+	const config = readConfig(figure);
+	const width = chart.getWidth();
+	const view = (figure.dataset.view || "pie") as ChartView;
+	const year = getSelectedYear(figure);
+
+	const option = view === "trend" ? createTrendOption(config, width) : view === "bar" ? createBarOption(config, year, width) : createPieOption(config, year, width);
+	chart.setOption(option, { notMerge: true });
+}
+
+/**
+ * Draw the charts under an element that are not drawn yet
+ * @param root - e.g. the dialog holding the charts
+ */
+export function mountStatsCharts(root: ParentNode): void {
+	root.querySelectorAll<HTMLElement>("[data-stats-chart]").forEach(figure => {
+		const canvas = figure.querySelector<HTMLElement>(".chart-canvas");
+		if (!canvas || charts.has(figure)) return;
+
+		// A dialog that is still hidden has no layout yet, e.g. before printing
+		const width = canvas.clientWidth || Math.min(window.innerWidth - 80, figure.classList.contains("small") ? 400 : 480);
+		const height = canvas.clientHeight || (figure.classList.contains("small") ? 350 : 540);
+
+		const chart = echarts.init(canvas, null, { width, height });
+		charts.set(figure, chart);
+		renderChart(figure, chart);
+	});
+}
+
+/**
+ * Dispose the echarts instances under an element
+ * @param root - e.g. the dialog holding the charts
+ */
+export function disposeStatsCharts(root: ParentNode): void {
+	charts.forEach((chart, figure) => {
+		if (!root.contains(figure)) return;
+		chart.dispose();
+		charts.delete(figure);
+	});
+}
+
+/**
+ * Fit the drawn charts to their elements again, e.g. after the window is resized
+ */
+export function resizeStatsCharts(): void {
+	charts.forEach((chart, figure) => {
+		const canvas = figure.querySelector<HTMLElement>(".chart-canvas");
+		if (!canvas?.clientWidth) return;
+		chart.resize({ width: canvas.clientWidth, height: canvas.clientHeight });
+		renderChart(figure, chart);
+	});
+}
+
+/**
+ * Show the statistics of another year
+ * @param root - The element with data-stats-year
+ * @param year - The year
+ */
+export function setStatsYear(root: HTMLElement, year: number): void {
+	root.dataset.statsYear = String(year);
+
+	root.querySelectorAll<HTMLElement>("[data-stats-year-option]").forEach(button => {
+		button.setAttribute("aria-pressed", String(button.dataset.statsYearOption === String(year)));
+	});
+	root.querySelectorAll<HTMLElement>("[data-stats-year-block]").forEach(block => {
+		block.hidden = block.dataset.statsYearBlock !== String(year);
+	});
+	charts.forEach((chart, figure) => {
+		if (root.contains(figure)) renderChart(figure, chart);
+	});
+}
+
+/**
+ * Handle the year buttons and the view buttons of the charts under an element
+ * @param root - The element with data-stats-year
+ */
+export function initializeStatsCharts(root: HTMLElement): void {
+	root.addEventListener("click", event => {
+		const target = event.target as HTMLElement;
+
+		const yearButton = target.closest<HTMLElement>("[data-stats-year-option]");
+		if (yearButton) {
+			setStatsYear(root, Number(yearButton.dataset.statsYearOption));
+			return;
+		}
+
+		const viewButton = target.closest<HTMLElement>("[data-chart-view]");
+		const figure = viewButton?.closest<HTMLElement>("[data-stats-chart]");
+		if (!viewButton || !figure) return;
+
+		figure.dataset.view = viewButton.dataset.chartView;
+		figure.querySelectorAll("[data-chart-view]").forEach(button => {
+			button.setAttribute("aria-pressed", String(button === viewButton));
+		});
+		const chart = charts.get(figure);
+		if (chart) renderChart(figure, chart);
+	});
+}
@@ -0,0 +1,137 @@
+/**
+ * Audience statistics of past SITCON years, from src/data/stats.json
+ *
+ * The dataset holds numbers only: categories are IDs such as "undergraduate", and their labels
+ * come from the i18n files (about.popup.chart.labels). Adding a year to "years" is enough for
+ * the charts, the year selector and the comparisons with the previous year to include it.
+ */
+
+import statsData from "@data/stats.json" with { type: "json" };
+import { parseStatsData, type StatsRaw } from "./data-schema.js";
+
+export type StatsUnit = "count" | "percent";
+
+export interface StatsChartData {
+	title: string;
+	unit: StatsUnit;
+	categories: { key: string; name: string }[]; // In display order
+	values: Record<string, Record<string, number>>; // Year → category → value, for the years with this metric
+}
+
+export interface StatsComparison {
+	group: string;
+	year: number;
+	share: number | null; // Percent of the metric's total, null when the year has no data
+	previousYear: number | null; // The closest earlier year with data
+	previousShare: number | null;
+	change: number | null; // Percentage points from previousShare to share
+}
+
+export interface AudienceFigure {
+	key: string; // "followers", "reach" or "views"
+	value: number;
+	approximate: boolean;
+}
+
+let validatedStats: StatsRaw | null = null;
+
+/**
+ * Load stats.json and check it against the data schema.
+ * Throws a DataSchemaError (failing the build) when any field is invalid.
+ */
+function loadStats(): StatsRaw {
+	validatedStats ??= parseStatsData(statsData);
+	return validatedStats;
+}
+
+/**
+ * Get the years with statistics
+ * @returns Years in ascending order
+ */
+export function getStatsYears(): number[] {
+	return loadStats().years.map(entry => entry.year);
+}
+
+/**
+ * Get the comparison groups, e.g. "students"
+ * @returns Group IDs in the order of stats.json
+ */
+export function getStatsGroups(): string[] {
+	return Object.keys(loadStats().groups);
+}
+
+/**
+ * Get everything a chart of one metric needs, for every year
+ * @param metric - Metric ID, e.g. "attendee_role"
+ * @param title - Localized chart title
+ * @param labels - Localized category labels; categories without one show their ID, e.g. "18-24"
+ */
+export function getStatsChartData(metric: string, title: string, labels: Record<string, string> = {}): StatsChartData {
+	const stats = loadStats();
+	const { unit, keys } = stats.metrics[metric];
+
+	return {
+		title,
+		unit,
+		categories: keys.map(key => ({ key, name: labels[key] ?? key })),
+		values: Object.fromEntries(stats.years.filter(entry => entry.distributions[metric]).map(entry => [entry.year, entry.distributions[metric]]))
+	};
+}
+
+/**
+ * Work out the share of some categories
+ * @param distribution - Values keyed by category
+ * @param keys - The categories to add up
+ * @returns Percent of the total, or null when the total is 0
+ */
+export function getShare(distribution: Record<string, number>, keys: string[]): number | null {
+	const total = Object.values(distribution).reduce((sum, value) => sum + value, 0);
+	if (total === 0) return null;
+	return (keys.reduce((sum, key) => sum + (distribution[key] ?? 0), 0) / total) * 100;
+}
+
+/**
+ * Compare the share of a group with the previous year that has data, e.g. students in 2026 vs. 2025
+ * @param group - Group ID from stats.json
+ * @param year - The year to look at
+ */
+export function compareWithPreviousYear(group: string, year: number): StatsComparison {
+	const stats = loadStats();
+	const { metric, keys } = stats.groups[group];
+	const current = stats.years.find(entry => entry.year === year)?.distributions[metric];
+	const previous = stats.years.filter(entry => entry.year < year && entry.distributions[metric]).at(-1);
+
+	const share = current ? getShare(current, keys) : null;
+	const previousShare = previous ? getShare(previous.distributions[metric], keys) : null;
+
+	return {
+		group,
+		year,
+		share,
+		previousYear: previous?.year ?? null,
+		previousShare,
+		change: share !== null && previousShare !== null ? share - previousShare : null
+	};
+}
+
+/**
+ * Get the follower, reach and view counts of a social media platform
+ * @param year - The year
+ * @param platform - Platform ID, e.g. "facebook"
+ * @returns The figures, empty when the year has none
+ */
+export function getAudience(year: number, platform: string): AudienceFigure[] {
+	const entry = loadStats().years.find(candidate => candidate.year === year);
+	const figures = entry?.audience[platform] ?? {};
+
+	return Object.entries(figures).map(([key, value]) => ({ key, value, approximate: entry!.approximate.includes(`${platform}.${key}`) }));
+}
+
+/**
+ * Format a follower or view count the way it is read aloud, e.g. "1.2萬" or "12K"
+ * @param value - The count
+ * @param locale - Locale code
+ */
+export function formatCompactNumber(value: number, locale: string): string {
+	return new Intl.NumberFormat(locale, { notation: "compact", maximumFractionDigits: 1 }).format(value);
+}
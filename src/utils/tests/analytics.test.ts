@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, it, vi } from "vitest";
+import assert from "node:assert/strict";
+import type { ItemData } from "../items-loader.js";
+import {
+	dataLayerAdapter,
+	getAnalyticsConsent,
+	getAnalyticsValue,
+	getItemAnalyticsItems,
+	noopAdapter,
+	setAnalyticsAdapter,
+	setAnalyticsConsent,
+	toAnalyticsItems,
+	trackCartEvent,
+	trackEvent
+} from "../analytics.js";
+import { INTERESTED_ITEMS, stubBrowser } from "./helpers.js";
+
+// Only the fields the analytics builders read
+function itemData(fields: Partial<ItemData>): ItemData {
+	return { id: "12", name: "會場攤位", price_twd: null, sub: [], ...fields } as ItemData;
+}
+
+function stubPage(consent?: string) {
+	stubBrowser(consent ? { analyticsConsent: consent } : {});
+	vi.stubGlobal("dataLayer", []);
+	vi.stubGlobal("location", { pathname: "/2026/cfs/" });
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	vi.restoreAllMocks();
+	setAnalyticsAdapter(dataLayerAdapter);
+});
+
+describe("analytics consent", () => {
+	it("is denied until the visitor opts in", () => {
+		stubPage();
+		assert.equal(getAnalyticsConsent(), "denied");
+	});
+
+	it("follows the saved choice", () => {
+		stubPage("granted");
+		assert.equal(getAnalyticsConsent(), "granted");
+
+		setAnalyticsConsent("denied");
+		assert.equal(getAnalyticsConsent(), "denied");
+		assert.deepEqual([...window.dataLayer.at(-1)], ["consent", "update", { analytics_storage: "denied" }]);
+	});
+
+	it("loads Google Tag Manager once the visitor opts in", () => {
+		stubPage();
+		const loadGoogleTagManager = vi.fn();
+		vi.stubGlobal("loadGoogleTagManager", loadGoogleTagManager);
+
+		setAnalyticsConsent("denied");
+		assert.equal(loadGoogleTagManager.mock.calls.length, 0);
+
+		setAnalyticsConsent("granted");
+		assert.equal(loadGoogleTagManager.mock.calls.length, 1);
+		assert.deepEqual([...window.dataLayer.at(-1)], ["consent", "update", { analytics_storage: "granted" }]);
+	});
+});
+
+describe("trackEvent", () => {
+	beforeEach(() => {
+		setAnalyticsAdapter(noopAdapter);
+	});
+
+	it("sends nothing without consent", () => {
+		stubPage();
+		const send = vi.spyOn(noopAdapter, "send");
+
+		assert.equal(trackEvent("generate_lead", { currency: "TWD", value: 0, lead_source: "form" }), false);
+		assert.equal(send.mock.calls.length, 0);
+	});
+
+	it("sends through the adapter once consent is granted", () => {
+		stubPage("granted");
+		const send = vi.spyOn(noopAdapter, "send");
+
+		assert.equal(trackEvent("generate_lead", { currency: "TWD", value: 0, lead_source: "form" }), true);
+		assert.deepEqual(send.mock.calls, [["generate_lead", { currency: "TWD", value: 0, lead_source: "form" }]]);
+		assert.deepEqual(window.dataLayer, []);
+	});
+
+	it("sends cart events with their value", () => {
+		stubPage("granted");
+		const send = vi.spyOn(noopAdapter, "send");
+
+		assert.equal(trackCartEvent("add_to_cart", INTERESTED_ITEMS.slice(1, 2)), true);
+		assert.deepEqual(send.mock.calls[0], [
+			"add_to_cart",
+			{ currency: "TWD", value: 80000, items: [{ item_id: "12", item_name: "會場攤位", item_category: "2026 CFS", item_variant: undefined, price: 40000, quantity: 2 }] }
+		]);
+	});
+});
+
+describe("analytics items", () => {
+	it("describes interest list entries", () => {
+		assert.deepEqual(toAnalyticsItems(INTERESTED_ITEMS), [
+			{ item_id: "tier-navigator", item_name: "領航級", item_category: "2026 CFS", item_variant: "tier", price: 150000, quantity: 1 },
+			{ item_id: "12", item_name: "會場攤位", item_category: "2026 CFS", item_variant: undefined, price: 40000, quantity: 2 },
+			{ item_id: "1-sub-6291e783", item_name: "午餐旗", item_category: "2026 CFS", item_variant: undefined, price: undefined, quantity: 1 }
+		]);
+	});
+
+	it("adds up prices times quantities, counting items without a price as 0", () => {
+		assert.equal(getAnalyticsValue(toAnalyticsItems(INTERESTED_ITEMS)), 230000);
+	});
+
+	it("describes an item, or each of its sub-items", () => {
+		assert.deepEqual(getItemAnalyticsItems(itemData({ price_twd: 40000 })), [{ item_id: "12", item_name: "會場攤位", item_category: "2026 CFS", price: 40000 }]);
+
+		const withSubItems = itemData({
+			id: "1",
+			name: "午餐旗",
+			sub: [{ id: "6291e783", name: "A 款", price_twd: 20000 } as ItemData["sub"][number], { id: "a74db0d5", name: "B 款", price_twd: null } as ItemData["sub"][number]]
+		});
+		assert.deepEqual(getItemAnalyticsItems(withSubItems), [
+			{ item_id: "1-sub-6291e783", item_name: "午餐旗", item_category: "2026 CFS", item_variant: "A 款", price: 20000 },
+			{ item_id: "1-sub-a74db0d5", item_name: "午餐旗", item_category: "2026 CFS", item_variant: "B 款", price: undefined }
+		]);
+	});
+});
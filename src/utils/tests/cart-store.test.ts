@@ -0,0 +1,110 @@
+import { afterEach, describe, it, vi } from "vitest";
+import assert from "node:assert/strict";
+import { CART_STORAGE_VERSION, addInterestedItem, clampQuantity, getInterestedItems, migrateStoredCart, type InterestedItem } from "../cart-store.js";
+import { stubBrowser } from "./helpers.js";
+
+vi.mock("@data/legacy-sub-item-ids.json", () => ({ default: { "1-sub-0": "1-sub-6291e783" } }));
+
+const BOOTH: InterestedItem = { id: "12", title: "會場攤位", category: "all", image: "", deadline: "", price: "$40,000" };
+const FLAG: InterestedItem = { id: "1-sub-0", title: "午餐旗", category: "all", image: "", deadline: "", price: "$20,000" };
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	vi.restoreAllMocks();
+});
+
+describe("clampQuantity", () => {
+	it("keeps whole numbers between 1 and the maximum", () => {
+		assert.equal(clampQuantity(2.7), 2);
+		assert.equal(clampQuantity(0), 1);
+		assert.equal(clampQuantity(NaN), 1);
+		assert.equal(clampQuantity(5, 3), 3);
+		assert.equal(clampQuantity(5), 5);
+	});
+
+	it("returns 0 only when nothing can be added", () => {
+		assert.equal(clampQuantity(2, 0), 0);
+		assert.equal(clampQuantity(0, 1), 1);
+	});
+});
+
+describe("migrateStoredCart", () => {
+	it("gives version 1 entries a quantity and their stable sub-item IDs", () => {
+		assert.deepEqual(migrateStoredCart([BOOTH, { ...FLAG, quantity: 2 }]), {
+			version: CART_STORAGE_VERSION,
+			items: [
+				{ ...BOOTH, quantity: 1 },
+				{ ...FLAG, id: "1-sub-6291e783", quantity: 2 }
+			]
+		});
+	});
+
+	it("gives version 2 entries their stable sub-item IDs", () => {
+		assert.deepEqual(migrateStoredCart({ version: 2, items: [{ ...FLAG, quantity: 3 }] }), {
+			version: CART_STORAGE_VERSION,
+			items: [{ ...FLAG, id: "1-sub-6291e783", quantity: 3 }]
+		});
+	});
+
+	it("keeps the current version as it is", () => {
+		const cart = { version: CART_STORAGE_VERSION, items: [{ ...BOOTH, quantity: 2 }] };
+		assert.deepEqual(migrateStoredCart(cart), cart);
+	});
+
+	it("returns null for unreadable data and data from a newer version", () => {
+		assert.equal(migrateStoredCart({ version: CART_STORAGE_VERSION + 1, items: [] }), null);
+		assert.equal(migrateStoredCart({ version: 2, items: "12" }), null);
+		assert.equal(migrateStoredCart({ items: [BOOTH] }), null);
+		assert.equal(migrateStoredCart([1, 2]), null);
+		assert.equal(migrateStoredCart("12"), null);
+		assert.equal(migrateStoredCart(null), null);
+	});
+});
+
+describe("getInterestedItems", () => {
+	it("saves a migrated list in the current version", () => {
+		const storage = stubBrowser({ interestItems: JSON.stringify([BOOTH, FLAG]) });
+
+		assert.deepEqual(
+			getInterestedItems().map(item => [item.id, item.quantity]),
+			[
+				["12", 1],
+				["1-sub-6291e783", 1]
+			]
+		);
+		assert.equal(JSON.parse(storage.get("interestItems") ?? "").version, CART_STORAGE_VERSION);
+	});
+
+	it("ignores a list it cannot read", () => {
+		stubBrowser({ interestItems: JSON.stringify({ version: CART_STORAGE_VERSION + 1, items: [] }) });
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		assert.deepEqual(getInterestedItems(), []);
+	});
+
+	it("clamps quantities to the maximum, except for sold-out entries", () => {
+		const items = [
+			{ ...BOOTH, quantity: 5, maxQuantity: 3 },
+			{ ...FLAG, id: "1-sub-6291e783", quantity: 2, maxQuantity: 0 }
+		];
+		stubBrowser({ interestItems: JSON.stringify({ version: CART_STORAGE_VERSION, items }) });
+
+		assert.deepEqual(
+			getInterestedItems().map(item => item.quantity),
+			[3, 2]
+		);
+	});
+});
+
+describe("addInterestedItem", () => {
+	it("refuses sold-out items", () => {
+		stubBrowser();
+
+		assert.equal(addInterestedItem({ ...BOOTH, maxQuantity: 0 }), false);
+		assert.equal(addInterestedItem({ ...BOOTH, quantity: 4, maxQuantity: 2 }), true);
+		assert.deepEqual(
+			getInterestedItems().map(item => item.quantity),
+			[2]
+		);
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, it } from "vitest";
+import assert from "node:assert/strict";
+import { getSaleStatus, getSaleWindow, parseSaleTime } from "../deadline.js";
+
+const SHOP_START = "2025-08-30T00:00:00+08:00";
+
+describe("parseSaleTime", () => {
+	it("reads date-only values as the start or end of that day in Taiwan", () => {
+		assert.equal(parseSaleTime("2026/03/20", "start")?.toISOString(), "2026-03-19T16:00:00.000Z");
+		assert.equal(parseSaleTime("2026/03/20", "end")?.toISOString(), "2026-03-20T15:59:59.999Z");
+		assert.equal(parseSaleTime("2026-3-5", "end")?.toISOString(), "2026-03-05T15:59:59.999Z");
+	});
+
+	it("reads HH:mm as Taiwan time for either boundary", () => {
+		assert.equal(parseSaleTime("2026/03/20 06:00", "end")?.toISOString(), "2026-03-19T22:00:00.000Z");
+		assert.equal(parseSaleTime("2026/03/20 18:30", "start")?.toISOString(), "2026-03-20T10:30:00.000Z");
+	});
+
+	it("keeps the offset of ISO timestamps", () => {
+		assert.equal(parseSaleTime(SHOP_START, "start")?.toISOString(), "2025-08-29T16:00:00.000Z");
+		assert.equal(parseSaleTime("2026-03-20T10:00:00Z", "end")?.toISOString(), "2026-03-20T10:00:00.000Z");
+	});
+
+	it("returns null when empty and undefined when malformed", () => {
+		assert.equal(parseSaleTime("", "end"), null);
+		assert.equal(parseSaleTime(undefined, "start"), null);
+		assert.equal(parseSaleTime("2026/02/30", "end"), undefined);
+		assert.equal(parseSaleTime("2026/03/20 24:00", "end"), undefined);
+		assert.equal(parseSaleTime("3/20", "end"), undefined);
+	});
+});
+
+describe("getSaleWindow", () => {
+	it("opens with the shop when the item has no opening time", () => {
+		assert.deepEqual(getSaleWindow({ deadline: "2026/03/20" }, SHOP_START), {
+			opensAt: new Date(SHOP_START),
+			closesAt: new Date("2026-03-20T23:59:59.999+08:00")
+		});
+	});
+
+	it("opens at the later of the shop and item opening times", () => {
+		assert.equal(getSaleWindow({ startTime: "2026/01/10" }, SHOP_START).opensAt?.toISOString(), "2026-01-09T16:00:00.000Z");
+		assert.equal(getSaleWindow({ startTime: "2025/08/01" }, SHOP_START).opensAt?.toISOString(), "2025-08-29T16:00:00.000Z");
+		assert.equal(getSaleWindow({ startTime: "2026/01/10" }, "").opensAt?.toISOString(), "2026-01-09T16:00:00.000Z");
+	});
+
+	it("is unbounded without times", () => {
+		assert.deepEqual(getSaleWindow({}, ""), { opensAt: null, closesAt: null });
+	});
+});
+
+describe("getSaleStatus", () => {
+	it("closes at the end of the deadline day in Taiwan, whatever the visitor's timezone", () => {
+		const times = { deadline: "2026/03/20" };
+		assert.equal(getSaleStatus(times, new Date("2026-03-20T23:59:00+08:00")), "open");
+		assert.equal(getSaleStatus(times, new Date("2026-03-21T00:00:00+08:00")), "closed");
+	});
+
+	it("is upcoming before the item opens", () => {
+		assert.equal(getSaleStatus({ startTime: "2026/01/10 12:00" }, new Date("2026-01-10T11:59:00+08:00")), "upcoming");
+		assert.equal(getSaleStatus({ startTime: "2026/01/10 12:00" }, new Date("2026-01-10T12:00:00+08:00")), "open");
+	});
+});
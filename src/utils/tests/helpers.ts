@@ -0,0 +1,29 @@
+/**
+ * Fixtures and browser stubs shared by the tests in this folder
+ */
+
+import { vi } from "vitest";
+import type { InterestedItem } from "../cart-store.js";
+
+// One entry of each kind: a tier, an item bought twice and a plan-included sub-item
+export const INTERESTED_ITEMS: InterestedItem[] = [
+	{ id: "tier-navigator", title: "領航級", category: "plan", image: "", deadline: "", price: "$150,000", priceTwd: 150000, quantity: 1 },
+	{ id: "12", title: "會場攤位", category: "all", image: "", deadline: "", price: "$40,000", priceTwd: 40000, quantity: 2 },
+	{ id: "1-sub-6291e783", title: "午餐旗", category: "all", image: "", deadline: "", price: "方案包含項目" }
+];
+
+/**
+ * Stub window (as globalThis) and a Map-backed localStorage; undo with vi.unstubAllGlobals()
+ * @param saved - Values in localStorage before the test
+ * @returns The Map behind localStorage
+ */
+export function stubBrowser(saved: Record<string, string> = {}): Map<string, string> {
+	const storage = new Map(Object.entries(saved));
+	vi.stubGlobal("window", globalThis);
+	vi.stubGlobal("localStorage", {
+		getItem: (key: string) => storage.get(key) ?? null,
+		setItem: (key: string, value: string) => storage.set(key, value),
+		removeItem: (key: string) => storage.delete(key)
+	});
+	return storage;
+}
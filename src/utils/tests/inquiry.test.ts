@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, it, vi } from "vitest";
+import assert from "node:assert/strict";
+import { validatePayload } from "../../../scripts/inquiry-webhook-server.js";
+import {
+	InquiryQueueFullError,
+	InquirySubmitError,
+	buildInquiryCart,
+	createInquiry,
+	flushInquiryQueue,
+	formatInquiryCart,
+	getQueuedInquiries,
+	submitInquiry,
+	toInquiryPayload,
+	validateInquiry,
+	type Inquiry,
+	type InquiryFields,
+	type InquiryTransport
+} from "../inquiry.js";
+import { INTERESTED_ITEMS, stubBrowser } from "./helpers.js";
+
+const FIELDS: InquiryFields = { organization: "SITCON", department: "", name: "小明", contact: "contact@sitcon.org", message: "想了解攤位" };
+
+function inquiryFrom(name: string): Inquiry {
+	return createInquiry({ ...FIELDS, name }, INTERESTED_ITEMS, "zh-Hant");
+}
+
+// Records what it sends, failing with the given errors first
+function createFakeTransport(...failures: InquirySubmitError[]): InquiryTransport & { sent: Inquiry[] } {
+	const sent: Inquiry[] = [];
+	return {
+		name: "fake",
+		sent,
+		async send(inquiry) {
+			const failure = failures.shift();
+			if (failure) throw failure;
+			sent.push(inquiry);
+		}
+	};
+}
+
+// Web Locks with ifAvailable, enough for flushInquiryQueue
+function createFakeLocks() {
+	const held = new Set<string>();
+	return {
+		async request<T>(name: string, _options: { ifAvailable: boolean }, callback: (lock: { name: string } | null) => Promise<T> | T): Promise<T> {
+			if (held.has(name)) return callback(null);
+			held.add(name);
+			try {
+				return await callback({ name });
+			} finally {
+				held.delete(name);
+			}
+		}
+	};
+}
+
+function stubOnlineBrowser(locks?: ReturnType<typeof createFakeLocks>) {
+	stubBrowser();
+	vi.stubGlobal("navigator", { onLine: true, locks });
+}
+
+async function queue(...inquiries: Inquiry[]) {
+	for (const inquiry of inquiries) {
+		await submitInquiry(inquiry, createFakeTransport(new InquirySubmitError("offline", true)));
+	}
+}
+
+describe("validateInquiry", () => {
+	it("accepts a complete form", () => {
+		assert.deepEqual(validateInquiry(FIELDS), {});
+	});
+
+	it("reports the first problem of each field", () => {
+		const errors = validateInquiry({ organization: " ", department: "=SUM(A1)", name: "", contact: "contact@sitcon", message: "" });
+		assert.deepEqual(errors, { organization: "required", department: "leadingEqual", name: "required", contact: "contact" });
+	});
+
+	it("checks phone numbers and accepts other handles", () => {
+		assert.equal(validateInquiry({ ...FIELDS, contact: "1234" }).contact, "contact");
+		assert.equal(validateInquiry({ ...FIELDS, contact: "+886 912-345-678" }).contact, undefined);
+		assert.equal(validateInquiry({ ...FIELDS, contact: "@sitcon" }).contact, undefined);
+	});
+});
+
+describe("inquiry payload", () => {
+	it("describes tiers, items and sub-items", () => {
+		assert.deepEqual(buildInquiryCart(INTERESTED_ITEMS), [
+			{ id: "tier-navigator", kind: "tier", item_id: "navigator", sub_item_id: null, title: "領航級", quantity: 1, price: "$150,000" },
+			{ id: "12", kind: "item", item_id: "12", sub_item_id: null, title: "會場攤位", quantity: 2, price: "$40,000" },
+			{ id: "1-sub-6291e783", kind: "sub_item", item_id: "1", sub_item_id: "6291e783", title: "午餐旗", quantity: 1, price: "方案包含項目" }
+		]);
+	});
+
+	it("builds what the webhook server accepts", () => {
+		const inquiry = inquiryFrom("小明");
+		const payload = toInquiryPayload(inquiry);
+
+		assert.deepEqual(validatePayload(payload), []);
+		assert.deepEqual(payload.sponsor, { organization: "SITCON", department: "", name: "小明", contact: "contact@sitcon.org" });
+		assert.equal(payload.message, "想了解攤位");
+		assert.equal(payload.cart_state, "tier-navigator.12*2.1-sub-6291e783");
+	});
+
+	it("describes the cart in text for the Google Form", () => {
+		assert.equal(
+			formatInquiryCart(buildInquiryCart(INTERESTED_ITEMS)),
+			"感興趣的項目：領航級（$150,000）、會場攤位 ×2（$40,000）、午餐旗（方案包含項目）\n項目代碼：tier-navigator.12*2.1-sub-6291e783"
+		);
+		assert.equal(formatInquiryCart([]), "");
+	});
+});
+
+describe("flushInquiryQueue", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	describe("without Web Locks", () => {
+		beforeEach(() => stubOnlineBrowser());
+
+		it("sends the queue and empties it", async () => {
+			const inquiries = [inquiryFrom("小明"), inquiryFrom("小華")];
+			await queue(...inquiries);
+
+			const transport = createFakeTransport();
+			assert.equal(await flushInquiryQueue(transport), 2);
+			assert.deepEqual(transport.sent, inquiries);
+			assert.deepEqual(getQueuedInquiries(), []);
+		});
+
+		it("keeps unreachable inquiries and drops rejected ones", async () => {
+			const [unreachable, rejected, sent] = [inquiryFrom("小明"), inquiryFrom("小華"), inquiryFrom("小美")];
+			await queue(unreachable, rejected, sent);
+			vi.spyOn(console, "error").mockImplementation(() => {});
+
+			const transport = createFakeTransport(new InquirySubmitError("Webhook responded with 503", true), new InquirySubmitError("Webhook responded with 422", false));
+			assert.equal(await flushInquiryQueue(transport), 1);
+			assert.deepEqual(transport.sent, [sent]);
+			assert.deepEqual(getQueuedInquiries(), [unreachable]);
+		});
+
+		it("keeps inquiries queued while sending", async () => {
+			const [first, late] = [inquiryFrom("小明"), inquiryFrom("小華")];
+			await queue(first);
+
+			const transport: InquiryTransport = {
+				name: "slow",
+				async send() {
+					await queue(late);
+				}
+			};
+			assert.equal(await flushInquiryQueue(transport), 1);
+			assert.deepEqual(getQueuedInquiries(), [late]);
+		});
+
+		it("refuses to queue more inquiries than it keeps, keeping the older ones", async () => {
+			const inquiries = ["小明", "小華", "小美", "小強", "小芳"].map(inquiryFrom);
+			await queue(...inquiries);
+
+			await assert.rejects(submitInquiry(inquiryFrom("小安"), createFakeTransport(new InquirySubmitError("offline", true))), InquiryQueueFullError);
+			assert.deepEqual(getQueuedInquiries(), inquiries);
+		});
+
+		it("waits while offline", async () => {
+			await queue(inquiryFrom("小明"));
+			vi.stubGlobal("navigator", { onLine: false });
+
+			assert.equal(await flushInquiryQueue(createFakeTransport()), 0);
+			assert.equal(getQueuedInquiries().length, 1);
+		});
+	});
+
+	it("sends each inquiry once when two tabs flush together", async () => {
+		stubOnlineBrowser(createFakeLocks());
+		await queue(inquiryFrom("小明"), inquiryFrom("小華"));
+
+		const transport = createFakeTransport();
+		const sent = await Promise.all([flushInquiryQueue(transport), flushInquiryQueue(transport)]);
+		assert.deepEqual(sent.sort(), [0, 2]);
+		assert.equal(transport.sent.length, 2);
+		assert.deepEqual(getQueuedInquiries(), []);
+	});
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, it, vi } from "vitest";
+import assert from "node:assert/strict";
+import type { ItemData } from "../items-loader.js";
+import { buildProductSchema } from "../item-schema.js";
+
+type SubItem = ItemData["sub"][number];
+
+interface Offers {
+	availability: string;
+	priceValidUntil?: string;
+	offers?: { name: string; availability: string; priceValidUntil?: string }[];
+}
+
+const IN_STOCK = "https://schema.org/InStock";
+const OUT_OF_STOCK = "https://schema.org/OutOfStock";
+const SOLD_OUT = "https://schema.org/SoldOut";
+
+// Only the fields the schema reads; the deadline closes before 08:00, a day earlier in UTC
+function itemData(fields: Partial<ItemData>): ItemData {
+	return {
+		id: "12",
+		name: "會場攤位",
+		image: "",
+		price_twd: 40000,
+		remaining: "",
+		deadline: "2026/03/20 06:00",
+		deadline_iso: "2026-03-19T22:00:00.000Z",
+		start_time: "",
+		sub: [],
+		...fields
+	} as ItemData;
+}
+
+function subItem(fields: Partial<SubItem>): SubItem {
+	return { id: "6291e783", name: "A 款", price_twd: 20000, remaining: "", start_time: "", ...fields } as SubItem;
+}
+
+function getOffers(item: ItemData): Offers {
+	return buildProductSchema(item, "zh-Hant", "").offers as Offers;
+}
+
+describe("buildProductSchema", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2026-03-01T12:00:00+08:00"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("gives the day the sale closes in Taiwan time", () => {
+		const offers = getOffers(itemData({}));
+
+		assert.equal(offers.priceValidUntil, "2026-03-20");
+		assert.equal(offers.availability, IN_STOCK);
+	});
+
+	it("reports items outside their sale window as out of stock", () => {
+		assert.equal(getOffers(itemData({ start_time: "2026/03/10" })).availability, OUT_OF_STOCK);
+
+		vi.setSystemTime(new Date("2026-03-20T06:01:00+08:00"));
+		assert.equal(getOffers(itemData({})).availability, OUT_OF_STOCK);
+	});
+
+	it("reports each sub-item's own stock and opening time", () => {
+		const offers = getOffers(
+			itemData({
+				price_twd: null,
+				sub: [subItem({}), subItem({ id: "a74db0d5", name: "B 款", remaining: "0" }), subItem({ id: "c0ffee00", name: "C 款", start_time: "2026/03/10" })]
+			})
+		);
+
+		assert.deepEqual(
+			offers.offers?.map(offer => [offer.name, offer.availability, offer.priceValidUntil]),
+			[
+				["A 款", IN_STOCK, "2026-03-20"],
+				["B 款", SOLD_OUT, "2026-03-20"],
+				["C 款", OUT_OF_STOCK, "2026-03-20"]
+			]
+		);
+	});
+
+	it("sells out every sub-item of a sold-out item", () => {
+		const offers = getOffers(itemData({ price_twd: null, remaining: "0", sub: [subItem({}), subItem({ id: "a74db0d5", name: "B 款" })] }));
+
+		assert.equal(offers.availability, SOLD_OUT);
+		assert.deepEqual(
+			offers.offers?.map(offer => offer.availability),
+			[SOLD_OUT, SOLD_OUT]
+		);
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, it, vi } from "vitest";
+import assert from "node:assert/strict";
+import { optimizePlanSelection } from "../plan-optimizer.js";
+
+// Only the fields the optimizer reads, so the tests do not follow the sponsorship sheet
+vi.mock("@data/item.json", () => ({
+	default: {
+		"1": { name_zh: "會場攤位", price: "$40,000", sub: [] },
+		"2": { name_zh: "贈票", price: "$2,000", sub: [] },
+		"3": { name_zh: "議程廳講者背板", price: "", sub: [] },
+		"4": { name_zh: "社群貼文", price: "", sub: [{ id: "a1b2c3d4", name_zh: "粉專貼文", price: "$5,000" }] }
+	}
+}));
+
+vi.mock("@data/plan.json", () => ({
+	default: {
+		gold: {
+			id: "gold",
+			price: "NT$100,000",
+			order: 1,
+			display: { remaining: null },
+			benefits: [
+				{ item_id: "1", item_name: "會場攤位", quantity: "2" },
+				{ item_id: "3", item_name: "議程廳講者背板", quantity: "O" },
+				{ item_id: "", item_name: "粉專貼文", quantity: "1" }
+			]
+		},
+		silver: {
+			id: "silver",
+			price: "NT$40,000",
+			order: 2,
+			display: { remaining: null },
+			benefits: [
+				{ item_id: "1", item_name: "會場攤位", quantity: "1" },
+				{ item_id: "2", item_name: "贈票", quantity: "" }
+			]
+		},
+		bronze: {
+			id: "bronze",
+			price: "NT$10,000",
+			order: 3,
+			display: { remaining: 0 },
+			benefits: [{ item_id: "1", item_name: "會場攤位", quantity: "1" }]
+		}
+	}
+}));
+
+describe("optimizePlanSelection", () => {
+	it("buys everything separately when no plan is cheaper", () => {
+		const { best, alaCarte, savings } = optimizePlanSelection([{ id: "2", quantity: 3 }]);
+
+		assert.equal(best, alaCarte);
+		assert.equal(alaCarte.total, 6000);
+		assert.equal(savings, 0);
+	});
+
+	it("counts an O benefit as one unit", () => {
+		const { best, alaCarte, savings } = optimizePlanSelection([{ id: "3", quantity: 1 }]);
+
+		assert.equal(alaCarte.feasible, false);
+		assert.equal(best?.plan?.id, "gold");
+		assert.deepEqual(best?.lines, [{ id: "3", quantity: 1, coveredQuantity: 1, alaCarteQuantity: 0, unitPrice: null, cost: 0 }]);
+		assert.equal(savings, null);
+
+		assert.equal(optimizePlanSelection([{ id: "3", quantity: 2 }]).best, null);
+	});
+
+	it("matches benefits without an item ID to sub-items by name", () => {
+		const { best } = optimizePlanSelection([
+			{ id: "3", quantity: 1 },
+			{ id: "4-sub-a1b2c3d4", quantity: 2 }
+		]);
+
+		assert.equal(best?.plan?.id, "gold");
+		assert.deepEqual(
+			best?.lines.map(line => [line.id, line.coveredQuantity, line.alaCarteQuantity]),
+			[
+				["3", 1, 0],
+				["4-sub-a1b2c3d4", 1, 1]
+			]
+		);
+		assert.equal(best?.total, 105000);
+	});
+
+	it("prefers the plan when it costs the same as buying separately", () => {
+		const { best, alaCarte, savings } = optimizePlanSelection([{ id: "1", quantity: 1 }]);
+
+		assert.equal(alaCarte.total, 40000);
+		assert.equal(best?.plan?.id, "silver");
+		assert.equal(best?.total, 40000);
+		assert.equal(savings, 0);
+	});
+
+	it("never recommends a sold-out tier", () => {
+		const { best } = optimizePlanSelection([{ id: "1", quantity: 1 }]);
+
+		assert.notEqual(best?.plan?.id, "bronze");
+		assert.equal(best?.total, 40000);
+	});
+
+	it("ignores tiers and empty lines in the interest list", () => {
+		const { best } = optimizePlanSelection([
+			{ id: "tier-gold", quantity: 1 },
+			{ id: "1", quantity: 0 },
+			{ id: "2", quantity: 1 }
+		]);
+
+		assert.equal(best?.plan, null);
+		assert.deepEqual(
+			best?.lines.map(line => line.id),
+			["2"]
+		);
+	});
+});
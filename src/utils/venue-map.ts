@@ -0,0 +1,99 @@
+/**
+ * The interactive venue map in the event details dialog (Time.astro)
+ *
+ * Markup: a [data-venue-map] VenueMap whose rooms ([data-venue-code]) and zones outside the
+ * rooms ([data-zone-id]) are buttons, and one .venue-area-items list per room or zone with
+ * the items placed there. Selecting a room or zone highlights it and shows its list.
+ */
+
+import { openDialog } from "./dialog.js";
+
+export type VenueArea = { room: string } | { zone: string };
+
+function matchesArea(element: Element, area: VenueArea | null): boolean {
+	if (!area) return false;
+	return "room" in area ? element.getAttribute("data-venue-code") === area.room : element.getAttribute("data-zone-id") === area.zone;
+}
+
+/**
+ * Highlight a room or zone on the map and show the items placed there
+ * @param area - The room or zone, or null to clear the selection
+ * @returns true if the map has that room or zone
+ */
+export function selectVenueArea(area: VenueArea | null): boolean {
+	const map = document.querySelector("[data-venue-map]");
+	if (!map) return false;
+
+	let found = false;
+	map.querySelectorAll("g[data-venue-code], g[data-zone-id]").forEach(button => {
+		const selected = matchesArea(button, area);
+		found ||= selected;
+		button.classList.toggle("highlighted", selected);
+		button.setAttribute("aria-pressed", String(selected));
+	});
+
+	document.querySelectorAll<HTMLElement>(".venue-area-items").forEach(list => {
+		list.hidden = !matchesArea(list, area);
+	});
+
+	return found;
+}
+
+/**
+ * Open the event details and show a room on the venue map
+ * @param venueCode - Room code, e.g. "R0"; without one the map is shown without a selection
+ */
+export function openVenueDetails(venueCode?: string) {
+	// Open over the item popup the link is in, so closing it goes back there
+	if (!openDialog("place-staff-popup")) return;
+
+	selectVenueArea(venueCode ? { room: venueCode } : null);
+
+	// Wait for the dialog to open before scrolling inside it
+	setTimeout(() => {
+		const target = document.querySelector("#venue-map-section") ?? document.querySelector(".place-section-title");
+		target?.scrollIntoView({ behavior: "smooth", block: "start" });
+	}, 150);
+}
+
+/**
+ * Wire up the map buttons and the item links in the lists
+ */
+export function initializeVenueMap(): void {
+	const map = document.querySelector("[data-venue-map]");
+	if (!map) return;
+
+	const select = (button: Element) => {
+		const room = button.getAttribute("data-venue-code");
+		const zone = button.getAttribute("data-zone-id");
+		// Selecting the selected area again clears the selection
+		const area = button.getAttribute("aria-pressed") === "true" ? null : room ? { room } : zone ? { zone } : null;
+		selectVenueArea(area);
+	};
+
+	map.addEventListener("click", event => {
+		const button = (event.target as Element).closest("g[data-venue-code], g[data-zone-id]");
+		if (button) select(button);
+	});
+
+	map.addEventListener("keydown", event => {
+		const keyboardEvent = event as KeyboardEvent;
+		const button = (keyboardEvent.target as Element).closest("g[data-venue-code], g[data-zone-id]");
+		if (!button || (keyboardEvent.key !== "Enter" && keyboardEvent.key !== " ")) return;
+
+		keyboardEvent.preventDefault();
+		select(button);
+	});
+
+	// Item dialogs open over the event details, so closing one comes back to the map
+	document.querySelectorAll<HTMLElement>(".venue-area-items [data-item-id]").forEach(link => {
+		link.addEventListener("click", () => openDialog(`item-popup-${link.dataset.itemId}`));
+	});
+}
+
+// Venue links in item descriptions call this, see linkifyVenueCodes
+declare global {
+	interface Window {
+		openVenueDetails?: (venueCode?: string) => void;
+	}
+}
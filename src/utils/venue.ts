@@ -0,0 +1,107 @@
+/**
+ * The venue: floors, rooms and the zones items are placed in, from src/data/venue.json
+ *
+ * Rooms are the spaces with a code used in item descriptions (R0, lounge, ...). Zones are the
+ * places an item can be, such as a room, a stage inside a room or the lobby; items list them
+ * in their "placement" field. Shapes are rectangles drawn on the floor's map (VenueMap.astro).
+ */
+
+import venueData from "@data/venue.json" with { type: "json" };
+import { parseVenueData, type VenueRecord, type VenueShapeRaw } from "./data-schema.js";
+import { getLocalizedField } from "./locales.js";
+
+export type VenueShape = VenueShapeRaw;
+
+export interface VenueFloor {
+	id: string;
+	name: string;
+	width: number;
+	height: number;
+}
+
+export interface VenueRoom {
+	code: string;
+	floor: string;
+	name: string;
+	description: string;
+	capacity: number | null;
+	photo: string; // File name in public/venue
+	shape: VenueShape;
+}
+
+export interface VenueZone {
+	id: string;
+	floor: string;
+	room: string | null; // Code of the room the zone is in
+	name: string;
+	shape: VenueShape; // The room's shape for zones covering a whole room
+	coversRoom: boolean; // true when the zone has no shape of its own
+}
+
+export interface Venue {
+	floors: VenueFloor[];
+	rooms: VenueRoom[];
+	zones: VenueZone[];
+}
+
+let validatedVenue: VenueRecord | null = null;
+
+/**
+ * Load venue.json and check it against the data schema.
+ * Throws a DataSchemaError (failing the build) when any field is invalid.
+ */
+export function loadVenueRecord(): VenueRecord {
+	validatedVenue ??= parseVenueData(venueData);
+	return validatedVenue;
+}
+
+/**
+ * Get the venue in a language
+ * @param locale - Locale code
+ * @returns Floors, rooms and zones in the order of venue.json
+ */
+export function getVenue(locale: string): Venue {
+	const record = loadVenueRecord();
+	const localized = (data: object, field: string) => getLocalizedField(data, field, locale);
+
+	return {
+		floors: record.floors.map(floor => ({ id: floor.id, name: localized(floor, "name"), width: floor.width, height: floor.height })),
+		rooms: record.rooms.map(room => ({
+			code: room.code,
+			floor: room.floor,
+			name: localized(room, "name"),
+			description: localized(room, "description"),
+			capacity: room.capacity,
+			photo: room.photo,
+			shape: room.shape
+		})),
+		zones: Object.values(record.zones).map(zone => ({
+			id: zone.id,
+			floor: zone.floor,
+			room: zone.room,
+			name: localized(zone.raw, "name"),
+			shape: zone.shape,
+			coversRoom: zone.raw.shape === undefined
+		}))
+	};
+}
+
+/**
+ * Get the codes of every room, e.g. to find them in item descriptions
+ * @returns Room codes in the order of venue.json
+ */
+export function getVenueCodes(): string[] {
+	return loadVenueRecord().rooms.map(room => room.code);
+}
+
+/**
+ * Find the items placed in a room or a zone
+ * @param items - Items with their placement zone IDs
+ * @param venue - The venue
+ * @param area - A room code, or the ID of a zone outside the rooms
+ * @returns The items with a zone in that room, or in that zone
+ */
+export function getItemsPlacedIn<T extends { placement: string[] }>(items: T[], venue: Venue, area: { room: string } | { zone: string }): T[] {
+	const zoneIds = new Set(venue.zones.filter(zone => ("room" in area ? zone.room === area.room : zone.id === area.zone)).map(zone => zone.id));
+	return items.filter(item => item.placement.some(zone => zoneIds.has(zone)));
+}
@@ -0,0 +1,10 @@
+/// <reference types="vitest/config" />
+import { getViteConfig } from "astro/config";
+
+// Tests of src/utils run through the site's Vite config, so path aliases, import.meta.glob and
+// import.meta.env behave as they do on the site. Scripts are tested with node --test instead.
+export default getViteConfig({
+	test: {
+		include: ["src/utils/tests/*.test.ts"]
+	}
+});